@@ -0,0 +1,92 @@
+/**
+ * Moments Plugin - Public API
+ *
+ * Exposed to other plugins and scripts as
+ * `app.plugins.plugins["moments"].api`.
+ */
+
+import type MomentsPlugin from "./main";
+import type { MomentEntry, InlineFieldValue } from "./types";
+import { MomentsStateManager } from "./state/MomentsStateManager";
+import { MOMENTS_VIEW_TYPE } from "./view/MomentsViewTypes";
+import type { MomentsView } from "./view/MomentsView";
+import { getFileByPath } from "./storage/momentsIO";
+import { formatStoragePath, matchesStoragePath } from "./storage/momentsPath";
+import { matchesFieldFilter } from "./utils/markdown";
+
+/**
+ * Filter for querying entries
+ */
+export interface MomentsEntryFilter {
+  /** Case-insensitive substring the entry text must contain */
+  text?: string;
+
+  /**
+   * Inline field filter keyed by field name, e.g. `{ project: "apollo", mood: (v) => v >= 4 }`.
+   * An empty string only requires the field to exist.
+   */
+  fields?: Record<string, InlineFieldValue | ((value: InlineFieldValue) => boolean)>;
+
+  /** Include archived entries */
+  includeArchived?: boolean;
+}
+
+/**
+ * Public API of the Moments plugin
+ */
+export class MomentsApi {
+  private plugin: MomentsPlugin;
+
+  constructor(plugin: MomentsPlugin) {
+    this.plugin = plugin;
+  }
+
+  /**
+   * Get the entries of the configured Moments stream
+   *
+   * @param filter - Optional text and inline field filter
+   * @returns Matching entries in stream order
+   */
+  async getEntries(filter: MomentsEntryFilter = {}): Promise<MomentEntry[]> {
+    const entries = await this.loadEntries(filter.includeArchived ?? false);
+    const text = filter.text?.toLowerCase();
+
+    return entries.filter(entry =>
+      (!text || entry.rawWithPrefix.toLowerCase().includes(text)) &&
+      (!filter.fields || matchesFieldFilter(entry.fields, filter.fields))
+    );
+  }
+
+  /**
+   * Load all entries, reusing an open Moments view when there is one
+   */
+  private async loadEntries(includeArchived: boolean): Promise<MomentEntry[]> {
+    const { app, settings } = this.plugin;
+
+    const openView = app.workspace
+      .getLeavesOfType(MOMENTS_VIEW_TYPE)
+      .map(leaf => leaf.view as MomentsView)
+      .find(view => view.file && matchesStoragePath(settings.storagePath, view.file.path));
+
+    const collect = (stateManager: MomentsStateManager) => [
+      ...stateManager.getAllEntries(),
+      ...(includeArchived ? stateManager.getArchivedEntries() : []),
+    ];
+
+    if (openView?.stateManager) {
+      return collect(openView.stateManager);
+    }
+
+    const file = getFileByPath(app, formatStoragePath(settings.storagePath, Date.now()));
+    if (!file) return [];
+
+    // Reading only: reload() skips the block id repair of initialize()
+    const stateManager = new MomentsStateManager(app, file, settings);
+    try {
+      await stateManager.reload();
+      return collect(stateManager);
+    } finally {
+      stateManager.destroy();
+    }
+  }
+}
@@ -4,11 +4,16 @@
  * Registers all plugin commands with Obsidian.
  */
 
-import { WorkspaceLeaf } from "obsidian";
+import { Notice, WorkspaceLeaf } from "obsidian";
 import type MomentsPlugin from "../main";
 import { MOMENTS_VIEW_TYPE } from "../view/MomentsViewTypes";
 import { MomentsView } from "../view/MomentsView";
 import { ensureMomentsFile } from "../storage/momentsIO";
+import { formatStoragePath, matchesStoragePath } from "../storage/momentsPath";
+import { TimestampMigrationModal } from "../ui/modals/TimestampMigrationModal";
+import { MomentsDoctorModal } from "../ui/modals/MomentsDoctorModal";
+import { RestoreBackupModal } from "../ui/modals/RestoreBackupModal";
+import type { SavedView } from "../settings";
 
 /**
  * Register all Moments commands
@@ -48,6 +53,161 @@ export function registerCommands(plugin: MomentsPlugin): void {
       return false;
     },
   });
+  
+  // Undo / redo Moments operations
+  plugin.addCommand({
+    id: "undo",
+    name: "Undo",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MomentsView);
+      if (view?.stateManager?.canUndo()) {
+        if (!checking) {
+          void view.undo();
+        }
+        return true;
+      }
+      return false;
+    },
+  });
+  
+  plugin.addCommand({
+    id: "redo",
+    name: "Redo",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MomentsView);
+      if (view?.stateManager?.canRedo()) {
+        if (!checking) {
+          void view.redo();
+        }
+        return true;
+      }
+      return false;
+    },
+  });
+  
+  // List parse problems of the stream
+  plugin.addCommand({
+    id: "check-file",
+    name: "Check file",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MomentsView);
+      if (view?.stateManager) {
+        if (!checking) {
+          new MomentsDoctorModal(plugin, view.stateManager).open();
+        }
+        return true;
+      }
+      return false;
+    },
+  });
+  
+  // Write missing and duplicate block IDs back to the file
+  plugin.addCommand({
+    id: "repair-file",
+    name: "Repair file",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MomentsView);
+      const stateManager = view?.stateManager;
+      if (stateManager) {
+        if (!checking) {
+          void stateManager.repairBlockIds().then((count) => {
+            new Notice(count > 0
+              ? `Moments: repaired ${count} block ${count === 1 ? "ID" : "IDs"}`
+              : "Moments: no missing or duplicate block IDs");
+          });
+        }
+        return true;
+      }
+      return false;
+    },
+  });
+  
+  // Rewrite timestamp prefixes after the timestamp format changed
+  plugin.addCommand({
+    id: "migrate-timestamps",
+    name: "Migrate timestamps",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MomentsView);
+      if (view?.stateManager) {
+        if (!checking) {
+          new TimestampMigrationModal(plugin.app, view.stateManager).open();
+        }
+        return true;
+      }
+      return false;
+    },
+  });
+  
+  // Browse the snapshots taken before writes and restore from them
+  plugin.addCommand({
+    id: "restore-backup",
+    name: "Restore from backup",
+    checkCallback: (checking: boolean) => {
+      const view = plugin.app.workspace.getActiveViewOfType(MomentsView);
+      if (view?.stateManager) {
+        if (!checking) {
+          new RestoreBackupModal(plugin.app, view.stateManager).open();
+        }
+        return true;
+      }
+      return false;
+    },
+  });
+  
+  registerSavedViewCommands(plugin);
+}
+
+/**
+ * Register a command opening each saved view
+ * 
+ * Called again whenever the settings are saved; when views were added,
+ * renamed or deleted, commands of renamed views are replaced and those
+ * of deleted views removed (otherwise nothing is registered again).
+ * 
+ * removeCommand needs Obsidian 1.7.2 while the plugin supports 1.6.6;
+ * on older versions the command of a deleted view stays in the palette
+ * until restart, disabled by its check callback.
+ */
+export function registerSavedViewCommands(plugin: MomentsPlugin): void {
+  const commands: Map<string, string> = new Map(
+    plugin.settings.savedViews.map(view => [`open-view-${view.id}`, `Open view: ${view.name}`])
+  );
+  
+  const registered = plugin.savedViewCommands;
+  if (registered.size === commands.size && [...commands].every(([id, name]) => registered.get(id) === name)) {
+    return;
+  }
+  
+  for (const view of plugin.settings.savedViews) {
+    const id = `open-view-${view.id}`;
+    plugin.addCommand({
+      id,
+      name: `Open view: ${view.name}`,
+      checkCallback: (checking: boolean) => {
+        // The view may have been deleted on an app version without removeCommand
+        const current = plugin.settings.savedViews.find(v => v.id === view.id);
+        if (current && !checking) {
+          void openSavedView(plugin, current);
+        }
+        return current !== undefined;
+      },
+    });
+  }
+  
+  for (const id of registered.keys()) {
+    if (!commands.has(id) && "removeCommand" in plugin) {
+      plugin.removeCommand(id);
+    }
+  }
+  plugin.savedViewCommands = commands;
+}
+
+/**
+ * Show a saved view: in the active Moments view, or in the stream opened
+ */
+export async function openSavedView(plugin: MomentsPlugin, savedView: SavedView): Promise<void> {
+  const view = plugin.app.workspace.getActiveViewOfType(MomentsView) ?? await openMomentsView(plugin);
+  view?.stateManager?.setFilters(savedView.query, savedView.tagFilter);
 }
 
 /**
@@ -56,10 +216,10 @@ export function registerCommands(plugin: MomentsPlugin): void {
 async function openMomentsView(plugin: MomentsPlugin): Promise<MomentsView | null> {
   const { workspace } = plugin.app;
   
-  // Ensure the moments file exists
+  // Ensure the moments file (of the current period) exists
   const fileResult = await ensureMomentsFile(
     plugin.app,
-    plugin.settings.storagePath,
+    formatStoragePath(plugin.settings.storagePath, Date.now()),
     plugin.settings.autoCreateFile
   );
   
@@ -75,8 +235,8 @@ async function openMomentsView(plugin: MomentsPlugin): Promise<MomentsView | nul
   
   for (const leaf of existingLeaves) {
     const view = leaf.view as MomentsView;
-    if (view.file?.path === file.path) {
-      // Already open, just activate
+    if (view.file && matchesStoragePath(plugin.settings.storagePath, view.file.path)) {
+      // Already open (possibly on another period file of the stream), just activate
       workspace.setActiveLeaf(leaf, { focus: true });
       return view;
     }
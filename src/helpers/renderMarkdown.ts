@@ -5,8 +5,14 @@
  * Binds delegated event handlers to handle clicks on internal links, external links, and tags.
  */
 
-import { Keymap, Menu } from "obsidian";
+import { App, Keymap, Menu } from "obsidian";
 import type { MomentsView } from "../view/MomentsView";
+import type { MomentsStateManager } from "../state/MomentsStateManager";
+
+/** The parts of the core global search plugin used here */
+interface GlobalSearchPlugin {
+  instance?: { openGlobalSearch?: (query: string) => void };
+}
 
 /**
  * Parse link information from an anchor element
@@ -32,6 +38,35 @@ export function applyCheckboxIndexes(dom: HTMLElement): void {
   });
 }
 
+/**
+ * Open Obsidian's global search for a tag
+ */
+export function openTagInGlobalSearch(app: App, tag: string): void {
+  const { internalPlugins } = app as unknown as {
+    internalPlugins?: { getPluginById?: (id: string) => GlobalSearchPlugin | null };
+  };
+  internalPlugins?.getPluginById?.("global-search")?.instance?.openGlobalSearch?.(`tag:${tag}`);
+}
+
+/**
+ * Handle a click on a tag in the view
+ * 
+ * A click selects the tag in the view's tag filter (or deselects it);
+ * Mod-click opens global search for it instead.
+ */
+export function handleTagClick(
+  evt: MouseEvent,
+  tag: string,
+  app: App,
+  stateManager: MomentsStateManager | null
+): void {
+  if (Keymap.isModEvent(evt) || !stateManager) {
+    openTagInGlobalSearch(app, tag);
+  } else {
+    stateManager.toggleTagFilter(tag);
+  }
+}
+
 /**
  * Bind markdown event handlers to the view's content element
  * 
@@ -41,7 +76,7 @@ export function applyCheckboxIndexes(dom: HTMLElement): void {
  * - Internal link context menu
  * - External link clicks
  * - External link context menu
- * - Tag clicks (open global search)
+ * - Tag clicks (filter the view, or open global search with Mod)
  * 
  * Uses event delegation so dynamically added content will work automatically.
  */
@@ -151,19 +186,14 @@ export function bindMarkdownEvents(view: MomentsView): void {
     menu.showAtMouseEvent(evt);
   });
 
-  // Tag click handler - open global search
+  // Tag click handler - filter the view by the tag
   contentEl.on("click", "a.tag", (evt: MouseEvent, targetEl: HTMLElement) => {
     if (evt.button !== 0) return;
 
     evt.preventDefault();
     evt.stopPropagation();
 
-    const tag = targetEl.getText();
-    const searchPlugin = (app as any).internalPlugins.getPluginById("global-search");
-
-    if (searchPlugin) {
-      searchPlugin.instance.openGlobalSearch(`tag:${tag}`);
-    }
+    handleTagClick(evt, targetEl.getText(), app, view.stateManager);
   });
 }
 
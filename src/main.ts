@@ -6,13 +6,15 @@
  */
 
 import { around } from "monkey-around";
-import { MarkdownView, Plugin, TFile, ViewState, WorkspaceLeaf } from "obsidian";
+import { MarkdownView, Plugin, TAbstractFile, TFile, ViewState, WorkspaceLeaf } from "obsidian";
 import { DEFAULT_SETTINGS, MomentsSettings, MomentsSettingTab } from "./settings";
 import { MomentsView } from "./view/MomentsView";
 import { MOMENTS_VIEW_TYPE, MOMENTS_ICON } from "./view/MomentsViewTypes";
-import { registerCommands } from "./commands";
+import { registerCommands, registerSavedViewCommands } from "./commands";
 import { ensureMomentsFile } from "./storage/momentsIO";
 import { FRONTMATTER_KEY } from "./storage/momentsFormat";
+import { formatStoragePath, matchesStoragePath } from "./storage/momentsPath";
+import { MomentsApi } from "./api";
 
 /**
  * Get Obsidian's internal MarkdownEditor class for rich text editing
@@ -44,12 +46,20 @@ export default class MomentsPlugin extends Plugin {
   /** Obsidian's internal MarkdownEditor class for input fields */
   MarkdownEditor: any;
   
+  /** Public API for other plugins */
+  api: MomentsApi;
+  
+  /** Name of the command registered for each saved view, by command id */
+  savedViewCommands: Map<string, string> = new Map();
+  
   /** Flag to track plugin loaded state */
   private _loaded = false;
 
   async onload() {
     await this.loadSettings();
 
+    this.api = new MomentsApi(this);
+
     // Get Obsidian's MarkdownEditor class for rich input
     this.MarkdownEditor = getEditorClass(this.app);
 
@@ -77,19 +87,7 @@ export default class MomentsPlugin extends Plugin {
     this.registerFileMenuEvents();
 
     // Register vault events for file sync
-    this.registerEvent(
-      this.app.vault.on("modify", (file) => {
-        // Notify any open Moments views of file changes
-        if (file.path === this.settings.storagePath) {
-          this.app.workspace.getLeavesOfType(MOMENTS_VIEW_TYPE).forEach((leaf) => {
-            const view = leaf.view as MomentsView;
-            if (view.file?.path === file.path && view.stateManager) {
-              view.stateManager.onExternalModify();
-            }
-          });
-        }
-      })
-    );
+    this.registerVaultEvents();
 
     this._loaded = true;
   }
@@ -105,6 +103,9 @@ export default class MomentsPlugin extends Plugin {
   async saveSettings() {
     await this.saveData(this.settings);
     
+    // Re-registers the saved view commands only if the views changed
+    registerSavedViewCommands(this);
+    
     // Notify all open views of settings change
     this.app.workspace.getLeavesOfType(MOMENTS_VIEW_TYPE).forEach((leaf) => {
       const view = leaf.view as MomentsView;
@@ -112,6 +113,55 @@ export default class MomentsPlugin extends Plugin {
     });
   }
 
+  /**
+   * Register vault events that keep open Moments views in sync
+   * with their files (including period files of a rotating stream)
+   */
+  registerVaultEvents() {
+    const forEachOwningView = (path: string, fn: (view: MomentsView) => void) => {
+      this.app.workspace.getLeavesOfType(MOMENTS_VIEW_TYPE).forEach((leaf) => {
+        const view = leaf.view as MomentsView;
+        if (view.stateManager?.ownsPath(path)) {
+          fn(view);
+        }
+      });
+    };
+
+    const onChange = (file: TAbstractFile) => {
+      if (!(file instanceof TFile)) return;
+      // Notify any open Moments views of file changes
+      forEachOwningView(file.path, (view) => view.stateManager?.onExternalModify(file));
+    };
+
+    this.registerEvent(this.app.vault.on("modify", onChange));
+    this.registerEvent(this.app.vault.on("create", onChange));
+
+    this.registerEvent(
+      this.app.vault.on("delete", (file) => {
+        forEachOwningView(file.path, (view) => view.stateManager?.onExternalDelete(file.path));
+      })
+    );
+
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        forEachOwningView(oldPath, (view) => view.stateManager?.onExternalDelete(oldPath));
+        onChange(file);
+      })
+    );
+
+    // Frontmatter of a Moments file may override settings for its view
+    this.registerEvent(
+      this.app.metadataCache.on("changed", (file) => {
+        this.app.workspace.getLeavesOfType(MOMENTS_VIEW_TYPE).forEach((leaf) => {
+          const view = leaf.view as MomentsView;
+          if (view.file?.path === file.path) {
+            view.onFileMetadataChange();
+          }
+        });
+      })
+    );
+  }
+
   /**
    * Register monkey patches to intercept file opening
    * This makes Moments files open in Moments view by default
@@ -251,6 +301,16 @@ export default class MomentsPlugin extends Plugin {
     );
   }
 
+  /**
+   * Open a file as markdown in a new tab, scrolled to a line
+   */
+  async openMarkdownAtLine(file: TFile, line: number) {
+    const leaf = this.app.workspace.getLeaf("tab") as WorkspaceLeaf & { id?: string };
+    // Keep the Moments redirect from taking over this leaf
+    this.momentsFileModes[leaf.id || file.path] = "markdown";
+    await leaf.openFile(file, { active: true, eState: { line } });
+  }
+
   /**
    * Switch a leaf to Moments view
    */
@@ -268,10 +328,10 @@ export default class MomentsPlugin extends Plugin {
   async activateMomentsView(): Promise<void> {
     const { workspace } = this.app;
 
-    // Ensure the moments file exists
+    // Ensure the moments file (of the current period) exists
     const fileResult = await ensureMomentsFile(
       this.app,
-      this.settings.storagePath,
+      formatStoragePath(this.settings.storagePath, Date.now()),
       this.settings.autoCreateFile
     );
 
@@ -287,7 +347,7 @@ export default class MomentsPlugin extends Plugin {
 
     for (const leaf of existingLeaves) {
       const view = leaf.view as MomentsView;
-      if (view.file?.path === file.path) {
+      if (view.file && matchesStoragePath(this.settings.storagePath, view.file.path)) {
         workspace.setActiveLeaf(leaf, { focus: true });
         return;
       }
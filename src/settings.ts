@@ -6,16 +6,41 @@
 
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type MomentsPlugin from "./main";
+import type { TagFilter } from "./types";
+
+/**
+ * Search query and tag selection saved under a name
+ */
+export interface SavedView {
+  /** Stable id, part of the id of the view's command */
+  id: string;
+  /** Name shown in the view menu and the command palette */
+  name: string;
+  /** Search query */
+  query: string;
+  /** Selected tags */
+  tagFilter: TagFilter;
+}
 
 /**
  * Plugin settings interface
  */
 export interface MomentsSettings {
   // Storage
-  /** Path to the moments file (relative to vault root) */
+  /**
+   * Path to the moments file (relative to vault root).
+   * May contain moment.js date tokens (YYYY, MM, DD, ww) in {{...}} to
+   * rotate into one file per period, e.g. "Moments/{{YYYY}}/{{YYYY-MM}}.md".
+   */
   storagePath: string;
   /** Auto-create the file if it doesn't exist */
   autoCreateFile: boolean;
+  /** Write generated ids back for entries missing a (unique) block id when opening a stream */
+  repairBlockIdsOnLoad: boolean;
+  /** Storage backend: list items in the storage file, or one note per moment */
+  storageBackend: "list" | "notes";
+  /** Folder holding one note per moment (notes backend only) */
+  notesFolder: string;
   /** Where to insert new entries */
   insertion: "prepend" | "append";
 
@@ -38,24 +63,50 @@ export interface MomentsSettings {
   enableUndoToast: boolean;
   /** Undo toast duration in milliseconds */
   undoToastDuration: number;
+  /** Number of operations kept for undo/redo */
+  historyDepth: number;
 
   // Display
   /** Show timestamps in entries */
   showTimestamps: boolean;
   /** Timestamp format (moment.js format string) */
   timestampFormat: string;
-  /** Maximum entries to render (for performance) */
-  maxRenderCount: number;
+  /** Formats used before the current one (most recent first), still accepted when parsing */
+  timestampFormatHistory: string[];
 
   // Search
   /** Show the search box */
   showSearch: boolean;
   /** Search debounce delay in ms */
   searchDebounceMs: number;
+  /** Search mode: exact matches in file order, or fuzzy matches ranked by relevance */
+  searchMode: "exact" | "fuzzy";
+  /** Show the tag bar listing the tags with counts */
+  showTagBar: boolean;
+  /** Saved searches, each with a command opening it */
+  savedViews: SavedView[];
 
   // Archive
   /** Soft delete to archive instead of permanent delete */
   softDeleteToArchive: boolean;
+  /** File archived moments under a sub-heading per month ("### 2026-03") */
+  archiveByMonth: boolean;
+  /** Archive moments created more than this many days ago (0 = off) */
+  autoArchiveAfterDays: number;
+  /** Archive moments beyond the newest N (0 = off) */
+  autoArchiveKeepCount: number;
+  /** Archive moments with any of these tags (comma-separated, e.g. "#done") */
+  autoArchiveTags: string;
+  /** Minutes between automatic archiving runs while a view is open */
+  autoArchiveIntervalMinutes: number;
+
+  // Backups
+  /** Number of snapshots kept per file (0 = no snapshots) */
+  snapshotCount: number;
+  /** Minimum minutes between two snapshots of a file (0 = before every write) */
+  snapshotIntervalMinutes: number;
+  /** Folder holding the snapshots (relative to vault root, may be hidden) */
+  snapshotFolder: string;
 }
 
 /**
@@ -65,6 +116,9 @@ export const DEFAULT_SETTINGS: MomentsSettings = {
   // Storage
   storagePath: "Moments.md",
   autoCreateFile: true,
+  repairBlockIdsOnLoad: true,
+  storageBackend: "list",
+  notesFolder: "Moments",
   insertion: "prepend",
 
   // Input behavior
@@ -78,18 +132,32 @@ export const DEFAULT_SETTINGS: MomentsSettings = {
   confirmBeforeDelete: false,
   enableUndoToast: true,
   undoToastDuration: 5000,
+  historyDepth: 50,
 
   // Display
   showTimestamps: true,
   timestampFormat: "YYYY-MM-DD HH:mm",
-  maxRenderCount: 200,
+  timestampFormatHistory: [],
 
   // Search
   showSearch: true,
   searchDebounceMs: 200,
+  searchMode: "exact",
+  showTagBar: true,
+  savedViews: [],
 
   // Archive
   softDeleteToArchive: false,
+  archiveByMonth: false,
+  autoArchiveAfterDays: 0,
+  autoArchiveKeepCount: 0,
+  autoArchiveTags: "",
+  autoArchiveIntervalMinutes: 60,
+
+  // Backups
+  snapshotCount: 20,
+  snapshotIntervalMinutes: 10,
+  snapshotFolder: ".moments-snapshots",
 };
 
 /**
@@ -114,7 +182,7 @@ export class MomentsSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("Storage file path")
-      .setDesc("Path to the markdown file where moments are stored (relative to vault root)")
+      .setDesc("Path to the markdown file where moments are stored (relative to vault root). Put date tokens such as YYYY, MM or DD in {{...}} to rotate files, e.g. Moments/{{YYYY}}/{{YYYY-MM}}.md")
       .addText((text) =>
         text
           .setPlaceholder("Moments.md")
@@ -137,6 +205,45 @@ export class MomentsSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Repair block ids on open")
+      .setDesc("Write a block ID back to entries that have none (or share one with another entry) when the stream is opened, so edits, undo and block links keep working")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.repairBlockIdsOnLoad)
+          .onChange(async (value) => {
+            this.plugin.settings.repairBlockIdsOnLoad = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Storage format")
+      .setDesc("Keep moments as list items in the storage file, or as one note per moment in a folder (the storage file then only opens the stream)")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("list", "Single list file")
+          .addOption("notes", "One note per moment")
+          .setValue(this.plugin.settings.storageBackend)
+          .onChange(async (value: "list" | "notes") => {
+            this.plugin.settings.storageBackend = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Notes folder")
+      .setDesc("Folder where each moment is stored as its own note (used with one note per moment)")
+      .addText((text) =>
+        text
+          .setPlaceholder("Moments")
+          .setValue(this.plugin.settings.notesFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.notesFolder = value || DEFAULT_SETTINGS.notesFolder;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName("New entry position")
       .setDesc("Where to insert new entries in the file")
@@ -245,6 +352,20 @@ export class MomentsSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Undo history depth")
+      .setDesc("Number of captures, edits and deletes that can be undone and redone")
+      .addText((text) =>
+        text
+          .setPlaceholder("50")
+          .setValue(String(this.plugin.settings.historyDepth))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            this.plugin.settings.historyDepth = isNaN(num) || num < 1 ? DEFAULT_SETTINGS.historyDepth : num;
+            await this.plugin.saveSettings();
+          })
+      );
+
     // === Display Section ===
     containerEl.createEl("h3", { text: "Display" });
 
@@ -260,29 +381,24 @@ export class MomentsSettingTab extends PluginSettingTab {
           })
       );
 
+    // Only the format in effect before editing goes into the history,
+    // not every intermediate value typed into the field
+    const previousFormat = this.plugin.settings.timestampFormat;
+    const previousHistory = this.plugin.settings.timestampFormatHistory;
+
     new Setting(containerEl)
       .setName("Timestamp format")
-      .setDesc("Format for timestamps (moment.js format)")
+      .setDesc("Format for timestamps (moment.js format). Entries in previous formats stay readable; run \"Migrate timestamps\" to rewrite them.")
       .addText((text) =>
         text
           .setPlaceholder("YYYY-MM-DD HH:mm")
           .setValue(this.plugin.settings.timestampFormat)
           .onChange(async (value) => {
-            this.plugin.settings.timestampFormat = value || DEFAULT_SETTINGS.timestampFormat;
-            await this.plugin.saveSettings();
-          })
-      );
-
-    new Setting(containerEl)
-      .setName("Maximum entries to display")
-      .setDesc("Limit the number of entries rendered for performance (0 = no limit)")
-      .addText((text) =>
-        text
-          .setPlaceholder("200")
-          .setValue(String(this.plugin.settings.maxRenderCount))
-          .onChange(async (value) => {
-            const num = parseInt(value, 10);
-            this.plugin.settings.maxRenderCount = isNaN(num) ? DEFAULT_SETTINGS.maxRenderCount : num;
+            const format = value || DEFAULT_SETTINGS.timestampFormat;
+            this.plugin.settings.timestampFormat = format;
+            this.plugin.settings.timestampFormatHistory = format === previousFormat
+              ? previousHistory
+              : [previousFormat, ...previousHistory.filter(f => f !== previousFormat && f !== format)];
             await this.plugin.saveSettings();
           })
       );
@@ -316,6 +432,70 @@ export class MomentsSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Search mode")
+      .setDesc("Exact shows matching moments in file order. Fuzzy also matches typos and abbreviations, and ranks the results by relevance and recency.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption("exact", "Exact (file order)")
+          .addOption("fuzzy", "Fuzzy (ranked)")
+          .setValue(this.plugin.settings.searchMode)
+          .onChange(async (value: "exact" | "fuzzy") => {
+            this.plugin.settings.searchMode = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Show tag bar")
+      .setDesc("List the tags of the stream with counts above it. Click a tag to filter by it.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.showTagBar)
+          .onChange(async (value) => {
+            this.plugin.settings.showTagBar = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // === Saved Views Section ===
+    containerEl.createEl("h3", { text: "Saved views" });
+
+    if (this.plugin.settings.savedViews.length === 0) {
+      containerEl.createEl("p", {
+        text: "Save a search and tag selection as a view from the views menu next to the tabs.",
+        cls: "setting-item-description",
+      });
+    }
+
+    for (const view of this.plugin.settings.savedViews) {
+      new Setting(containerEl)
+        .setName(view.name)
+        .setDesc([view.query, view.tagFilter.tags.join(view.tagFilter.mode === "and" ? " AND " : " OR ")]
+          .filter(part => part.length > 0)
+          .join(" · "))
+        .addText((text) =>
+          text
+            .setPlaceholder("Name")
+            .setValue(view.name)
+            .onChange(async (value) => {
+              if (!value.trim()) return;
+              view.name = value.trim();
+              await this.plugin.saveSettings();
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon("trash")
+            .setTooltip("Delete view")
+            .onClick(async () => {
+              this.plugin.settings.savedViews = this.plugin.settings.savedViews.filter(v => v.id !== view.id);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+    }
+
     // === Archive Section ===
     containerEl.createEl("h3", { text: "Archive" });
 
@@ -330,5 +510,116 @@ export class MomentsSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
           })
       );
+
+    new Setting(containerEl)
+      .setName("Group archive by month")
+      .setDesc("File archived moments under a sub-heading for the month they were created in")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.archiveByMonth)
+          .onChange(async (value) => {
+            this.plugin.settings.archiveByMonth = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Archive moments older than (days)")
+      .setDesc("Move moments created more than this many days ago to the archive when the view opens and periodically (0 = off)")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.autoArchiveAfterDays))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            this.plugin.settings.autoArchiveAfterDays = isNaN(num) || num < 0 ? DEFAULT_SETTINGS.autoArchiveAfterDays : num;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Keep newest moments")
+      .setDesc("Move all but this many of the newest moments to the archive (0 = off)")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.autoArchiveKeepCount))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            this.plugin.settings.autoArchiveKeepCount = isNaN(num) || num < 0 ? DEFAULT_SETTINGS.autoArchiveKeepCount : num;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Archive tags")
+      .setDesc("Move moments with any of these tags to the archive, comma-separated (empty = off)")
+      .addText((text) =>
+        text
+          .setPlaceholder("#done")
+          .setValue(this.plugin.settings.autoArchiveTags)
+          .onChange(async (value) => {
+            this.plugin.settings.autoArchiveTags = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Archive interval (minutes)")
+      .setDesc("How often the rules above run while a view is open (0 = only when it opens)")
+      .addText((text) =>
+        text
+          .setPlaceholder("60")
+          .setValue(String(this.plugin.settings.autoArchiveIntervalMinutes))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            this.plugin.settings.autoArchiveIntervalMinutes = isNaN(num) || num < 0 ? DEFAULT_SETTINGS.autoArchiveIntervalMinutes : num;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // === Backups Section ===
+    containerEl.createEl("h3", { text: "Backups" });
+
+    new Setting(containerEl)
+      .setName("Snapshots to keep")
+      .setDesc("Number of copies of each storage file kept from before it was written, which can be restored from the pane menu (0 = no snapshots)")
+      .addText((text) =>
+        text
+          .setPlaceholder("20")
+          .setValue(String(this.plugin.settings.snapshotCount))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            this.plugin.settings.snapshotCount = isNaN(num) || num < 0 ? DEFAULT_SETTINGS.snapshotCount : num;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Snapshot interval (minutes)")
+      .setDesc("Minimum time between two snapshots of the same file (0 = before every write)")
+      .addText((text) =>
+        text
+          .setPlaceholder("10")
+          .setValue(String(this.plugin.settings.snapshotIntervalMinutes))
+          .onChange(async (value) => {
+            const num = parseInt(value, 10);
+            this.plugin.settings.snapshotIntervalMinutes = isNaN(num) || num < 0 ? DEFAULT_SETTINGS.snapshotIntervalMinutes : num;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Snapshot folder")
+      .setDesc("Folder for the snapshots (relative to vault root). A name starting with a dot keeps it hidden from the file explorer and search.")
+      .addText((text) =>
+        text
+          .setPlaceholder(".moments-snapshots")
+          .setValue(this.plugin.settings.snapshotFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.snapshotFolder = value || DEFAULT_SETTINGS.snapshotFolder;
+            await this.plugin.saveSettings();
+          })
+      );
 	}
 }
@@ -1,28 +1,106 @@
 /**
  * Moments State Manager
- * 
+ *
  * Manages the in-memory state of moments entries and coordinates
  * with the storage layer for persistence.
+ *
+ * Storage itself is delegated to a MomentsStore backend, so the same
+ * view works for a single list file and for a folder of notes.
  */
 
 import { App, TFile } from "obsidian";
-import type { MomentEntry, ParsedMomentsDoc, EntrySpan, DeletedEntryInfo } from "../types";
+import type {
+  MomentEntry,
+  EntryId,
+  ParsedMomentsDoc,
+  DeletedEntryInfo,
+  TimestampMigrationPreview,
+  MomentsSnapshot,
+  EntryChange,
+  TagFilter,
+} from "../types";
 import type { MomentsSettings } from "../settings";
-import {
-  parseMomentsDoc,
-  insertEntry,
-  replaceEntrySpan,
-  deleteEntrySpan,
-  moveToArchive,
-  getEntryBlockText,
-} from "../storage/momentsFormat";
-import { readMomentsFile, writeMomentsFile } from "../storage/momentsIO";
+import type { MomentsStore } from "../storage/MomentsStore";
+import { ListMomentsStore } from "../storage/ListMomentsStore";
+import { NoteMomentsStore } from "../storage/NoteMomentsStore";
+import { matchesStoragePath } from "../storage/momentsPath";
+import { resolveFileSettings } from "../storage/momentsFormat";
+import { extractTags, type MatchRange } from "../utils/markdown";
+import { compileSearchQuery, type CompiledSearchQuery, type SearchQueryError } from "../utils/searchQuery";
+import { extractCaptureTime } from "../utils/time";
+import { matchesTagFilter } from "../utils/tags";
 
 /**
  * Callback type for state change notifications
  */
 export type StateChangeCallback = (entries: MomentEntry[]) => void;
 
+/**
+ * An operation recorded in the undo/redo history
+ *
+ * Operations refer to entries by id, so they still apply after other
+ * entries moved around in the file.
+ *
+ * Moments has no manual reordering: entries only move when their
+ * timestamp is edited, which is recorded (and undone) as an update.
+ */
+type HistoryOperation =
+  | { type: "add"; id: EntryId; deleted: DeletedEntryInfo | null }
+  | { type: "update"; id: EntryId; before: string; after: string; createdAt?: { before: number; after: number } }
+  | { type: "delete"; id: EntryId; deleted: DeletedEntryInfo }
+  | { type: "archive"; ids: EntryId[]; archived: boolean };
+
+/**
+ * Select the active entries the automatic archiving settings move to the archive
+ * 
+ * Entries whose timestamp could not be read are only archived by tag,
+ * as their creation time is a guess.
+ */
+function selectEntriesToArchive(
+  entries: MomentEntry[],
+  settings: MomentsSettings,
+  now: number
+): MomentEntry[] {
+  const { autoArchiveAfterDays, autoArchiveKeepCount } = settings;
+  const cutoff = now - autoArchiveAfterDays * 24 * 60 * 60 * 1000;
+  const tags = settings.autoArchiveTags
+    .split(",")
+    .map(tag => tag.trim().replace(/^#?/, "#").toLowerCase())
+    .filter(tag => tag.length > 1);
+  
+  const timed = entries.filter(e => !e.timestampMissing);
+  const beyondCount = new Set(
+    autoArchiveKeepCount > 0
+      ? [...timed].sort((a, b) => b.createdAt - a.createdAt).slice(autoArchiveKeepCount).map(e => e.id)
+      : []
+  );
+  
+  return entries.filter(e =>
+    (autoArchiveAfterDays > 0 && !e.timestampMissing && e.createdAt < cutoff) ||
+    beyondCount.has(e.id) ||
+    (tags.length > 0 && extractTags(e.raw).tags.some(tag => {
+      const lower = tag.toLowerCase();
+      return tags.some(t => lower === t || lower.startsWith(`${t}/`));
+    }))
+  );
+}
+
+/**
+ * Describe a history operation for notices, e.g. "delete"
+ */
+function describeOperation(operation: HistoryOperation): string {
+  switch (operation.type) {
+    case "add":
+      return "capture";
+    case "update":
+      return "edit";
+    case "delete":
+      return operation.deleted.archived ? "archive" : "delete";
+    case "archive":
+      return operation.archived ? "archive" : "restore from archive";
+  }
+}
+
 /**
  * State Manager for Moments entries
  */
@@ -31,28 +109,63 @@ export class MomentsStateManager {
   private file: TFile;
   private settings: MomentsSettings;
   
-  /** Current parsed state */
-  private parsed: ParsedMomentsDoc | null = null;
+  /** Storage backend holding the entries */
+  private store: MomentsStore;
+  
+  /** Settings the current store was created from (to detect backend changes) */
+  private storeKey: string;
+  
+  /** Whether the store has been loaded */
+  private loaded = false;
   
   /** Subscribers for state changes */
   private subscribers: Set<StateChangeCallback> = new Set();
   
-  /** Write queue for serializing file operations */
-  private writeQueue: Promise<void> = Promise.resolve();
-  
-  /** Flag to track if we triggered the last modification */
-  private selfModified = false;
+  /** Operations that can be undone (most recent last) */
+  private undoStack: HistoryOperation[] = [];
   
-  /** Last deleted entry info for undo */
-  private lastDeleted: DeletedEntryInfo | null = null;
+  /** Undone operations that can be redone (most recent last) */
+  private redoStack: HistoryOperation[] = [];
   
   /** Search query for filtering */
-  private searchQuery = "";
+  private search: CompiledSearchQuery = compileSearchQuery("");
+  
+  /** Tags selected for filtering (applied along with the search query) */
+  private tagFilter: TagFilter = { tags: [], mode: "and" };
   
   constructor(app: App, file: TFile, settings: MomentsSettings) {
     this.app = app;
     this.file = file;
     this.settings = settings;
+    this.storeKey = this.getStoreKey();
+    this.store = this.createStore();
+  }
+  
+  /**
+   * Create the storage backend for this manager's file
+   *
+   * The note-per-moment backend is used for the configured storage
+   * file only; any other Moments file is read as a list file.
+   */
+  private createStore(): MomentsStore {
+    const onChange = () => this.notifySubscribers();
+    
+    if (
+      this.settings.storageBackend === "notes" &&
+      matchesStoragePath(this.settings.storagePath, this.file.path)
+    ) {
+      return new NoteMomentsStore(this.app, this.getSettings(), onChange);
+    }
+    
+    return new ListMomentsStore(this.app, this.file, this.getSettings(), onChange);
+  }
+  
+  /**
+   * Key of the settings that select the storage backend
+   */
+  private getStoreKey(): string {
+    const { storageBackend, notesFolder } = this.settings;
+    return storageBackend === "notes" ? `notes:${notesFolder}` : storageBackend;
   }
   
   /**
@@ -60,18 +173,19 @@ export class MomentsStateManager {
    */
   async initialize(): Promise<void> {
     await this.reload();
+    
+    if (this.settings.repairBlockIdsOnLoad) {
+      await this.repairBlockIds();
+    }
   }
   
   /**
-   * Reload state from file
+   * Reload state from storage
    */
   async reload(): Promise<void> {
-    const result = await readMomentsFile(this.app, this.file);
-    
-    if (result.success && result.data !== undefined) {
-      this.parsed = parseMomentsDoc(result.data, this.settings.timestampFormat);
-      this.notifySubscribers();
-    }
+    await this.store.load();
+    this.loaded = true;
+    this.notifySubscribers();
   }
   
   /**
@@ -79,51 +193,96 @@ export class MomentsStateManager {
    */
   updateSettings(settings: MomentsSettings): void {
     this.settings = settings;
+    this.trimHistory();
+    
+    // Recompile the query when the search mode changed
+    if (this.search.fuzzy !== (settings.searchMode === "fuzzy")) {
+      this.setSearchQuery(this.search.query);
+    }
+    
+    const storeKey = this.getStoreKey();
+    if (storeKey !== this.storeKey) {
+      // Backend changed: swap the store and load from the new location
+      this.storeKey = storeKey;
+      this.store.destroy();
+      this.store = this.createStore();
+      void this.reload();
+    } else {
+      this.store.updateSettings(this.getSettings());
+    }
+  }
+  
+  /**
+   * Get the effective settings for this manager's file
+   * 
+   * Plugin settings with the overrides from the file's own frontmatter
+   * (e.g. `moments-timestamp-format:`) applied on top.
+   */
+  getSettings(): MomentsSettings {
+    const frontmatter = this.app.metadataCache.getFileCache(this.file)?.frontmatter;
+    return resolveFileSettings(this.settings, frontmatter);
   }
   
   /**
    * Get current entries (filtered if search is active)
    */
   getEntries(): MomentEntry[] {
-    if (!this.parsed) return [];
+    if (!this.loaded) return [];
     
-    let entries = [...this.parsed.entries];
+    return this.applySearch(this.store.getEntries());
+  }
+  
+  /**
+   * Get archived entries matching the search query
+   */
+  searchArchivedEntries(): MomentEntry[] {
+    if (!this.loaded) return [];
     
-    // Apply search filter
-    if (this.searchQuery) {
-      const query = this.searchQuery.toLowerCase();
-      entries = entries.filter(e => 
-        e.rawWithPrefix.toLowerCase().includes(query)
-      );
-    }
+    return this.applySearch(this.store.getArchivedEntries());
+  }
+  
+  /**
+   * Filter entries by the tag filter and the compiled search query
+   * 
+   * In fuzzy mode the matches are sorted by rank; entries ranked equal
+   * keep their file order.
+   */
+  private applySearch(entries: MomentEntry[]): MomentEntry[] {
+    const tagged = this.tagFilter.tags.length > 0
+      ? entries.filter(entry => matchesTagFilter(entry, this.tagFilter))
+      : [...entries];
+    if (!this.search.active || this.search.error) return tagged;
     
-    // Apply max render limit
-    if (this.settings.maxRenderCount > 0) {
-      entries = entries.slice(0, this.settings.maxRenderCount);
-    }
+    const matches = tagged.filter(this.search.matches);
+    const { rank } = this.search;
+    if (!rank) return matches;
     
-    return entries;
+    const ranks = new Map(matches.map(entry => [entry, rank(entry)]));
+    return matches.sort((a, b) => (ranks.get(b) ?? 0) - (ranks.get(a) ?? 0));
   }
   
   /**
    * Get all entries (unfiltered)
    */
   getAllEntries(): MomentEntry[] {
-    return this.parsed?.entries ?? [];
+    return this.store.getEntries();
   }
   
   /**
    * Get archived entries
    */
   getArchivedEntries(): MomentEntry[] {
-    return this.parsed?.archiveEntries ?? [];
+    return this.store.getArchivedEntries();
   }
   
   /**
    * Set search query for filtering
+   * 
+   * The query is compiled once here. A query with a syntax error does not
+   * filter; the error is available from getSearchError().
    */
   setSearchQuery(query: string): void {
-    this.searchQuery = query;
+    this.search = compileSearchQuery(query, Date.now(), this.settings.searchMode === "fuzzy");
     this.notifySubscribers();
   }
   
@@ -131,149 +290,415 @@ export class MomentsStateManager {
    * Get current search query
    */
   getSearchQuery(): string {
-    return this.searchQuery;
+    return this.search.query;
+  }
+  
+  /**
+   * Get the syntax error of the current search query, if any
+   */
+  getSearchError(): SearchQueryError | null {
+    return this.search.error;
+  }
+  
+  /**
+   * Get the tags selected for filtering
+   */
+  getTagFilter(): TagFilter {
+    return this.tagFilter;
+  }
+  
+  /**
+   * Select a tag for filtering, or deselect it if selected
+   */
+  toggleTagFilter(tag: string): void {
+    const normalized = tag.replace(/^#?/, "#").toLowerCase();
+    const { tags, mode } = this.tagFilter;
+    this.tagFilter = {
+      tags: tags.includes(normalized) ? tags.filter(t => t !== normalized) : [...tags, normalized],
+      mode,
+    };
+    this.notifySubscribers();
+  }
+  
+  /**
+   * Set whether entries need all selected tags ("and") or any of them ("or")
+   */
+  setTagFilterMode(mode: TagFilter["mode"]): void {
+    this.tagFilter = { ...this.tagFilter, mode };
+    this.notifySubscribers();
+  }
+  
+  /**
+   * Deselect all tags
+   */
+  clearTagFilter(): void {
+    this.tagFilter = { ...this.tagFilter, tags: [] };
+    this.notifySubscribers();
+  }
+  
+  /**
+   * Set the search query and the tag selection at once (e.g. from a saved view)
+   */
+  setFilters(query: string, tagFilter: TagFilter): void {
+    this.search = compileSearchQuery(query, Date.now(), this.settings.searchMode === "fuzzy");
+    this.tagFilter = { tags: [...tagFilter.tags], mode: tagFilter.mode };
+    this.notifySubscribers();
+  }
+  
+  /**
+   * Check if the view is filtered by a search query or tags
+   */
+  isFiltered(): boolean {
+    return this.search.query.length > 0 || this.tagFilter.tags.length > 0;
+  }
+  
+  /**
+   * Get the function finding the parts of a text matched by the search
+   * query, for highlighting (finds nothing without a query)
+   * 
+   * The function stays the same until the query changes.
+   */
+  getSearchMatcher(): (text: string) => MatchRange[] {
+    return this.search.findMatches;
   }
   
   /**
    * Add a new entry
+   * 
+   * A capture time tag at the start or end (e.g. "@yesterday 21:30")
+   * backdates the entry and is removed from its content.
    */
   async addEntry(content: string): Promise<void> {
-    if (!this.parsed) return;
+    if (!this.loaded) return;
     
-    const trimmedContent = this.settings.trimInput ? content.trim() : content;
+    const captured = extractCaptureTime(content);
+    const trimmedContent = this.settings.trimInput ? captured.content.trim() : captured.content;
     if (!trimmedContent) return;
     
-    await this.queueWrite(async (currentText) => {
-      return insertEntry(
-        currentText,
-        trimmedContent,
-        this.settings.insertion,
-        this.settings.timestampFormat
-      );
-    });
+    const id = await this.store.addEntry(trimmedContent, captured.createdAt ?? undefined);
+    if (id) {
+      this.record({ type: "add", id, deleted: null });
+    }
   }
   
   /**
    * Update an existing entry
+   * 
+   * @param expectedRaw - Content the edit started from; the user is asked
+   *                      before overwriting if the file no longer matches it
+   * @param createdAt - New timestamp of the entry (kept if omitted)
+   * @returns True if the entry was saved (or already had this content),
+   *          false if nothing was written
    */
-  async updateEntry(id: string, newContent: string): Promise<void> {
-    if (!this.parsed) return;
-    
-    const span = this.parsed.spans.get(id);
-    if (!span) return;
+  async updateEntry(id: string, newContent: string, expectedRaw?: string, createdAt?: number): Promise<boolean> {
+    if (!this.loaded) return false;
     
     const trimmedContent = this.settings.trimInput ? newContent.trim() : newContent;
-    if (!trimmedContent) return;
+    if (!trimmedContent) return false;
+    
+    const entry = this.findEntry(id);
+    if (!entry) return false;
+    
+    const before = entry.raw;
+    const retimed = createdAt !== undefined && createdAt !== entry.createdAt;
+    if (before === trimmedContent && !retimed) return true;
     
-    await this.queueWrite(async (currentText) => {
-      return replaceEntrySpan(
-        currentText,
-        span,
-        trimmedContent,
-        this.settings.timestampFormat,
-        true // keep original timestamp
-      );
-    });
+    const updated = await this.store.updateEntry(id, trimmedContent, expectedRaw, retimed ? createdAt : undefined);
+    if (updated) {
+      this.record({
+        type: "update",
+        id,
+        before,
+        after: trimmedContent,
+        createdAt: retimed ? { before: entry.createdAt, after: createdAt } : undefined,
+      });
+    }
+    return updated;
   }
   
   /**
    * Delete an entry
+   * 
+   * @returns True if the entry was deleted, false if nothing was written
    */
-  async deleteEntry(id: string): Promise<void> {
-    if (!this.parsed) return;
+  async deleteEntry(id: string): Promise<boolean> {
+    if (!this.loaded) return false;
     
-    const span = this.parsed.spans.get(id);
-    if (!span) return;
+    const deleted = await this.store.deleteEntry(id);
+    if (deleted) {
+      this.record({ type: "delete", id, deleted });
+    }
+    return deleted !== null;
+  }
+  
+  /**
+   * Move archived entries back into the stream
+   */
+  async restoreFromArchive(ids: EntryId[]): Promise<void> {
+    if (!this.loaded) return;
     
-    // Store for undo
-    const currentText = this.parsed.originalText;
-    const entryBlock = getEntryBlockText(currentText, span);
+    const moved = await this.store.setArchived(ids, false);
+    if (moved.length > 0) {
+      this.record({ type: "archive", ids: moved, archived: false });
+    }
+  }
+  
+  /**
+   * Move the entries selected by the automatic archiving settings to the
+   * archive, in one write per file
+   * 
+   * The batch is recorded in the undo history like any other operation.
+   * 
+   * @returns Ids of the archived entries (the same array undoAutoArchive expects)
+   */
+  async runAutoArchive(): Promise<EntryId[]> {
+    if (!this.loaded) return [];
     
-    // Find previous entry for insertion hint
-    const entries = this.parsed.entries;
-    const index = entries.findIndex(e => e.id === id);
-    let insertionHint: DeletedEntryInfo["insertionHint"] = "prepend";
-    let afterId: string | undefined;
+    const selected = selectEntriesToArchive(this.store.getEntries(), this.getSettings(), Date.now());
+    if (selected.length === 0) return [];
     
-    if (index > 0) {
-      const prevEntry = entries[index - 1];
-      if (prevEntry) {
-        insertionHint = "afterId";
-        afterId = prevEntry.id;
-      }
-    } else if (index === 0 && entries.length > 1) {
-      insertionHint = "prepend";
+    const moved = await this.store.setArchived(selected.map(e => e.id), true);
+    if (moved.length > 0) {
+      this.record({ type: "archive", ids: moved, archived: true });
     }
+    return moved;
+  }
+  
+  /**
+   * Undo an automatic archiving run if it is still the latest operation
+   * (used by the notice shown after archiving)
+   */
+  async undoAutoArchive(ids: EntryId[]): Promise<boolean> {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last?.type !== "archive" || last.ids !== ids) return false;
     
-    this.lastDeleted = {
-      entryBlock,
-      insertionHint,
-      afterId,
-      deletedAt: Date.now(),
-    };
+    return (await this.undo()) !== null;
+  }
+  
+  /**
+   * Get archived entries created more than a number of days ago
+   */
+  getArchivedOlderThan(days: number): MomentEntry[] {
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    return this.store.getArchivedEntries().filter(e => e.createdAt < cutoff);
+  }
+  
+  /**
+   * Permanently delete archived entries created more than a number of days ago
+   * 
+   * Not recorded in the undo history: the purged version of a list
+   * file is kept as a snapshot, purged notes go to the trash.
+   * 
+   * @returns Number of entries deleted
+   */
+  async purgeArchive(days: number): Promise<number> {
+    if (!this.loaded) return 0;
     
-    if (this.settings.softDeleteToArchive) {
-      await this.queueWrite(async (text) => {
-        return moveToArchive(text, span, this.settings.timestampFormat);
-      });
-    } else {
-      await this.queueWrite(async (text) => {
-        return deleteEntrySpan(text, span);
-      });
-    }
+    const ids = this.getArchivedOlderThan(days).map(e => e.id);
+    return ids.length > 0 ? this.store.purgeEntries(ids) : 0;
   }
   
   /**
-   * Undo the last delete operation
+   * Undo the delete of an entry if it is still the latest operation
+   * (used by the undo toast shown after deleting)
    */
-  async undoLastDelete(): Promise<boolean> {
-    if (!this.lastDeleted) return false;
+  async undoLastDelete(id: EntryId): Promise<boolean> {
+    const last = this.undoStack[this.undoStack.length - 1];
+    if (last?.type !== "delete" || last.id !== id) return false;
     
-    // Check if undo has expired (5 minutes)
-    if (Date.now() - this.lastDeleted.deletedAt > 5 * 60 * 1000) {
-      this.lastDeleted = null;
-      return false;
-    }
+    return (await this.undo()) !== null;
+  }
+  
+  /**
+   * Undo the most recent operation
+   * 
+   * @returns Description of the undone operation, or null if there was
+   *          nothing to undo or it failed (the operation then stays in
+   *          the history)
+   */
+  async undo(): Promise<string | null> {
+    if (!this.loaded) return null;
+    const operation = this.undoStack.pop();
+    if (!operation) return null;
     
-    const deleted = this.lastDeleted;
-    this.lastDeleted = null;
+    let applied = false;
+    try {
+      applied = await this.applyHistory(operation, "undo");
+    } finally {
+      (applied ? this.redoStack : this.undoStack).push(operation);
+    }
+    return applied ? describeOperation(operation) : null;
+  }
+  
+  /**
+   * Redo the most recently undone operation
+   * 
+   * @returns Description of the redone operation, or null if there was
+   *          nothing to redo or it failed (the operation then stays in
+   *          the history)
+   */
+  async redo(): Promise<string | null> {
+    if (!this.loaded) return null;
+    const operation = this.redoStack.pop();
+    if (!operation) return null;
     
-    await this.queueWrite(async (currentText) => {
-      // Simple re-insert at the appropriate position
-      // For now, just prepend (full position restore is complex)
-      const lines = currentText.split("\n");
+    let applied = false;
+    try {
+      applied = await this.applyHistory(operation, "redo");
+    } finally {
+      (applied ? this.undoStack : this.redoStack).push(operation);
+    }
+    return applied ? describeOperation(operation) : null;
+  }
+  
+  /**
+   * Check if undo is available
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+  
+  /**
+   * Check if redo is available
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+  
+  /**
+   * Apply an operation from the history in either direction
+   * 
+   * @returns False if the operation no longer applies (e.g. the entry
+   *          was removed outside Moments)
+   */
+  private async applyHistory(
+    operation: HistoryOperation,
+    direction: "undo" | "redo"
+  ): Promise<boolean> {
+    switch (operation.type) {
+      case "add": {
+        if (direction === "undo") {
+          operation.deleted = await this.store.deleteEntry(operation.id, { permanent: true });
+          return operation.deleted !== null;
+        }
+        return operation.deleted ? this.store.restoreEntry(operation.deleted) : false;
+      }
       
-      // Find insertion point after frontmatter
-      let insertIndex = 0;
-      let inFrontmatter = false;
+      case "update": {
+        const [from, to] = direction === "undo"
+          ? [operation.after, operation.before]
+          : [operation.before, operation.after];
+        const createdAt = operation.createdAt?.[direction === "undo" ? "before" : "after"];
+        return this.store.updateEntry(operation.id, to, from, createdAt);
+      }
       
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        if (line !== undefined && line.trim() === "---") {
-          if (!inFrontmatter) {
-            inFrontmatter = true;
-          } else {
-            insertIndex = i + 1;
-            break;
-          }
+      case "delete": {
+        if (direction === "undo") {
+          return this.store.restoreEntry(operation.deleted);
         }
+        const deleted = await this.store.deleteEntry(operation.id, {
+          permanent: !operation.deleted.archived,
+        });
+        if (!deleted) return false;
+        operation.deleted = deleted;
+        return true;
       }
       
-      // Insert the entry block
-      lines.splice(insertIndex + 1, 0, "", deleted.entryBlock);
-      
-      return lines.join("\n");
-    });
+      case "archive": {
+        const archived = direction === "undo" ? !operation.archived : operation.archived;
+        return (await this.store.setArchived(operation.ids, archived)).length > 0;
+      }
+    }
+  }
+  
+  /**
+   * Record a new operation (clears the redo stack)
+   */
+  private record(operation: HistoryOperation): void {
+    this.undoStack.push(operation);
+    this.redoStack = [];
+    this.trimHistory();
+  }
+  
+  /**
+   * Drop the oldest operations beyond the configured history depth
+   */
+  private trimHistory(): void {
+    const depth = Math.max(1, this.settings.historyDepth);
+    if (this.undoStack.length > depth) {
+      this.undoStack = this.undoStack.slice(-depth);
+    }
+    if (this.redoStack.length > depth) {
+      this.redoStack = this.redoStack.slice(-depth);
+    }
+  }
+  
+  /**
+   * Find an active or archived entry by id
+   */
+  private findEntry(id: EntryId): MomentEntry | undefined {
+    return this.store.getEntries().find(e => e.id === id)
+      ?? this.store.getArchivedEntries().find(e => e.id === id);
+  }
+  
+  /**
+   * Write generated ids back for entries missing a (unique) block id
+   * 
+   * Until repaired, such an entry gets a new random id on every parse,
+   * which breaks editing, undo and block links to it.
+   * 
+   * @returns Number of entries repaired
+   */
+  async repairBlockIds(): Promise<number> {
+    if (!this.loaded) return 0;
     
-    return true;
+    return this.store.repairBlockIds();
   }
   
   /**
-   * Check if undo is available
+   * Preview rewriting all timestamp prefixes to the current format
    */
-  canUndo(): boolean {
-    if (!this.lastDeleted) return false;
-    return Date.now() - this.lastDeleted.deletedAt <= 5 * 60 * 1000;
+  async previewTimestampMigration(): Promise<TimestampMigrationPreview> {
+    return this.store.previewTimestampMigration();
+  }
+  
+  /**
+   * Rewrite all timestamp prefixes to the current format
+   * 
+   * @returns Number of entries rewritten
+   */
+  async migrateTimestamps(): Promise<number> {
+    if (!this.loaded) return 0;
+    
+    return this.store.migrateTimestamps();
+  }
+  
+  /**
+   * List the backup snapshots of the stream, newest first
+   */
+  async listSnapshots(): Promise<MomentsSnapshot[]> {
+    return this.store.listSnapshots();
+  }
+  
+  /**
+   * Compare a snapshot with the current contents of its file
+   */
+  async diffSnapshot(snapshot: MomentsSnapshot): Promise<EntryChange[] | null> {
+    return this.store.diffSnapshot(snapshot);
+  }
+  
+  /**
+   * Restore entries (or, without ids, the whole file) from a snapshot
+   * 
+   * Not recorded in the undo history: the replaced version is itself
+   * kept as a snapshot.
+   * 
+   * @returns True if the file was written
+   */
+  async restoreSnapshot(snapshot: MomentsSnapshot, ids?: EntryId[]): Promise<boolean> {
+    if (!this.loaded) return false;
+    
+    return this.store.restoreSnapshot(snapshot, ids);
   }
   
   /**
@@ -293,60 +718,35 @@ export class MomentsStateManager {
   }
   
   /**
-   * Queue a write operation (serializes file writes)
+   * Check if a vault path belongs to this stream
    */
-  private async queueWrite(
-    transform: (currentText: string) => Promise<string> | string
-  ): Promise<void> {
-    this.writeQueue = this.writeQueue.then(async () => {
-      try {
-        // Read current file content
-        const result = await readMomentsFile(this.app, this.file);
-        if (!result.success || result.data === undefined) {
-          console.error("Failed to read file for write:", result.error);
-          return;
-        }
-        
-        // Transform content
-        const newContent = await transform(result.data);
-        
-        // Mark as self-modified to avoid re-parsing loop
-        this.selfModified = true;
-        
-        // Write back
-        const writeResult = await writeMomentsFile(this.app, this.file, newContent);
-        if (!writeResult.success) {
-          console.error("Failed to write file:", writeResult.error);
-          return;
-        }
-        
-        // Re-parse to update state
-        this.parsed = parseMomentsDoc(newContent, this.settings.timestampFormat);
-        this.notifySubscribers();
-        
-      } finally {
-        this.selfModified = false;
-      }
-    });
-    
-    await this.writeQueue;
+  ownsPath(path: string): boolean {
+    return this.store.ownsPath(path);
   }
   
   /**
    * Handle external file modification
+   *
+   * @param file - The modified file, or the view's own file if omitted
    */
-  async onExternalModify(): Promise<void> {
-    // Skip if we triggered this modification
-    if (this.selfModified) return;
+  async onExternalModify(file: TFile = this.file): Promise<void> {
+    if (!this.store.ownsPath(file.path)) return;
     
-    await this.reload();
+    await this.store.onExternalModify(file);
+  }
+  
+  /**
+   * Handle a stream file being deleted or renamed away
+   */
+  onExternalDelete(path: string): void {
+    this.store.onExternalDelete(path);
   }
   
   /**
    * Get parsing errors (if any)
    */
-  getErrors(): Array<{ message: string; context?: string }> {
-    return this.parsed?.errors ?? [];
+  getErrors(): ParsedMomentsDoc["errors"] {
+    return this.store.getErrors();
   }
   
   /**
@@ -354,8 +754,9 @@ export class MomentsStateManager {
    */
   destroy(): void {
     this.subscribers.clear();
-    this.parsed = null;
-    this.lastDeleted = null;
+    this.store.destroy();
+    this.loaded = false;
+    this.undoStack = [];
+    this.redoStack = [];
   }
 }
-
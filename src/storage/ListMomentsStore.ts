@@ -0,0 +1,921 @@
+/**
+ * List Moments Store - Single List File Backend
+ *
+ * Stores entries as list items in a Moments Markdown file (see momentsFormat.ts).
+ * When the file is one period of a rotating storage path template, all
+ * period files are loaded and merged into one stream.
+ */
+
+import { App, Notice, TFile } from "obsidian";
+import type {
+  MomentEntry,
+  ParsedMomentsDoc,
+  EntryId,
+  EntrySpan,
+  DeletedEntryInfo,
+  TimestampMigrationPreview,
+  MomentsSnapshot,
+  EntryChange,
+} from "../types";
+import type { MomentsSettings } from "../settings";
+import type { MomentsStore, StoreChangeCallback } from "./MomentsStore";
+import {
+  parseMomentsDoc,
+  reparseMomentsDoc,
+  insertEntry,
+  replaceEntrySpan,
+  deleteEntrySpan,
+  deleteEntrySpans,
+  moveToArchive,
+  moveEntriesToArchive,
+  moveEntriesFromArchive,
+  moveEntryToChronologicalPosition,
+  getEntryBlockText,
+  parseMomentsFrontmatter,
+  resolveFileSettings,
+  migrateTimestampPrefixes,
+  repairBlockIds,
+  restoreEntryBlock,
+} from "./momentsFormat";
+import { ensureMomentsFile, readMomentsFile, processMomentsFile } from "./momentsIO";
+import { mergeMomentsDocs, diffMomentsDocs, restoreEntryStates } from "./momentsMerge";
+import { listSnapshots, writeSnapshot, readSnapshot } from "./momentsSnapshots";
+import { verifyWrite } from "./momentsGuard";
+import type { WriteIntent } from "./momentsGuard";
+import {
+  isStoragePathTemplate,
+  formatStoragePath,
+  matchesStoragePath,
+  listStoragePathFiles,
+} from "./momentsPath";
+import { now } from "../utils/time";
+import { generateBlockId } from "../utils/id";
+import { hashText } from "../utils/hash";
+import { confirmWriteConflict } from "../ui/modals/WriteConflictModal";
+
+/**
+ * A loaded file of the stream and its parsed state
+ */
+interface StreamFile {
+  file: TFile;
+  parsed: ParsedMomentsDoc;
+  /** Hash of the text `parsed` was made from */
+  hash: string;
+}
+
+/**
+ * New content for a file and the entry changes it is meant to make
+ *
+ * The content is checked against the intent before it is written;
+ * a null intent (e.g. restoring a whole file) skips the check.
+ */
+interface FileUpdate {
+  text: string;
+  intent: WriteIntent | null;
+}
+
+/**
+ * Check if a write can be merged into a file that changed meanwhile
+ *
+ * Entries without a block id cannot be matched between the versions,
+ * so a write touching one (e.g. an id repair) is not merged.
+ *
+ * @returns Why the write cannot be merged, or null if it can
+ */
+function checkMerge(intent: WriteIntent | null): string | null {
+  const targets = [...intent?.changed ?? [], ...intent?.removed ?? []];
+  const unidentified = targets.find(entry => entry.idMissing);
+  return unidentified ? `"${unidentified.raw.substring(0, 40)}" has no block id to find it by` : null;
+}
+
+/**
+ * Store backed by one or more Moments list files
+ */
+export class ListMomentsStore implements MomentsStore {
+  private app: App;
+  private file: TFile;
+  private settings: MomentsSettings;
+  private onChange: StoreChangeCallback;
+  
+  /**
+   * Storage path template when the file is one period of a rotating
+   * stream (e.g. "Moments/{{YYYY}}/{{YYYY-MM}}.md"), null for a single file
+   */
+  private template: string | null = null;
+  
+  /** Parsed state of every file in the stream, keyed by path */
+  private files: Map<string, StreamFile> = new Map();
+  
+  /** Path of the file that owns each entry */
+  private entryPaths: Map<EntryId, string> = new Map();
+  
+  /**
+   * Ids given to entries whose block id an earlier file of the stream
+   * already uses, keyed by `${path}\n${blockId}` (kept across rebuilds,
+   * so such an entry keeps its id until the duplicate is repaired)
+   */
+  private duplicateIds: Map<string, EntryId> = new Map();
+  
+  /** Block id in the file of each entry listed under another id */
+  private fileIds: Map<EntryId, EntryId> = new Map();
+  
+  /** Block ids used in several files of the stream */
+  private duplicateErrors: ParsedMomentsDoc["errors"] = [];
+  
+  /** Merged active entries across all files */
+  private entries: MomentEntry[] = [];
+  
+  /** Merged archived entries across all files */
+  private archiveEntries: MomentEntry[] = [];
+  
+  /** Write queue for serializing file operations */
+  private writeQueue: Promise<void> = Promise.resolve();
+  
+  /** Paths of files we are currently writing (to skip our own modify events) */
+  private selfModified: Set<string> = new Set();
+  
+  /** Time of the latest snapshot of each file, by path */
+  private lastSnapshotAt: Map<string, number> = new Map();
+  
+  constructor(app: App, file: TFile, settings: MomentsSettings, onChange: StoreChangeCallback) {
+    this.app = app;
+    this.file = file;
+    this.settings = settings;
+    this.onChange = onChange;
+    this.template = this.resolveTemplate();
+  }
+  
+  /**
+   * Reload state from all files of the stream
+   */
+  async load(): Promise<void> {
+    const streamFiles = this.template
+      ? listStoragePathFiles(this.app, this.template)
+      : [];
+    if (!streamFiles.some(f => f.path === this.file.path)) {
+      streamFiles.push(this.file);
+    }
+    
+    const files: Map<string, StreamFile> = new Map();
+    for (const file of streamFiles) {
+      const result = await readMomentsFile(this.app, file);
+      if (result.success && result.data !== undefined) {
+        // Parse from scratch, the timestamp formats may have changed
+        files.set(file.path, this.createStreamFile(file, result.data, this.parse(result.data)));
+      }
+    }
+    
+    this.files = files;
+    this.rebuildEntries();
+    this.onChange();
+  }
+  
+  /**
+   * Reload a single file of the stream
+   */
+  private async loadFile(file: TFile): Promise<void> {
+    const result = await readMomentsFile(this.app, file);
+    if (!result.success || result.data === undefined) return;
+    
+    // Skip the re-parse when the content did not actually change
+    if (this.files.get(file.path)?.hash === hashText(result.data)) return;
+    
+    // Only the region that changed is parsed again
+    this.files.set(file.path, this.createStreamFile(file, result.data));
+    this.rebuildEntries();
+    this.onChange();
+  }
+  
+  /**
+   * Parse a file's text into its stream state
+   */
+  private createStreamFile(
+    file: TFile,
+    text: string,
+    parsed: ParsedMomentsDoc = this.parseFile(file, text)
+  ): StreamFile {
+    return { file, parsed, hash: hashText(text) };
+  }
+  
+  /**
+   * Rebuild the merged entry lists and the entry -> file index
+   *
+   * A single file keeps its file order. Several period files are merged
+   * into one time-ordered stream following the insertion setting.
+   * An entry whose block id an earlier file already uses is listed under
+   * a new id (written to the file by repairBlockIds).
+   */
+  private rebuildEntries(): void {
+    const entries: MomentEntry[] = [];
+    const archiveEntries: MomentEntry[] = [];
+    this.entryPaths.clear();
+    this.fileIds.clear();
+    this.duplicateErrors = [];
+    
+    const blockIds = new Set(
+      [...this.files.values()].flatMap(({ parsed }) => [...parsed.spans.keys()])
+    );
+    
+    for (const { file, parsed } of this.files.values()) {
+      const list = (entry: MomentEntry): MomentEntry => {
+        const otherPath = this.entryPaths.get(entry.id);
+        if (otherPath === undefined) {
+          this.entryPaths.set(entry.id, file.path);
+          return entry;
+        }
+        
+        const key = `${file.path}\n${entry.id}`;
+        let id = this.duplicateIds.get(key);
+        if (!id || blockIds.has(id) || this.entryPaths.has(id)) {
+          id = generateBlockId(new Set([...blockIds, ...this.entryPaths.keys()]));
+          this.duplicateIds.set(key, id);
+        }
+        
+        this.entryPaths.set(id, file.path);
+        this.fileIds.set(id, entry.id);
+        this.duplicateErrors.push({
+          kind: "duplicateId",
+          message: `Block id ${entry.id} is also used in ${otherPath}, assigned: ${id}`,
+          context: entry.rawWithPrefix.substring(0, 50),
+          path: file.path,
+          entryId: id,
+        });
+        return { ...entry, id, idMissing: true, duplicateId: entry.id };
+      };
+      
+      entries.push(...parsed.entries.map(list));
+      archiveEntries.push(...parsed.archiveEntries.map(list));
+    }
+    
+    if (this.files.size > 1) {
+      const direction = this.settings.insertion === "prepend" ? -1 : 1;
+      const byTime = (a: MomentEntry, b: MomentEntry) => (a.createdAt - b.createdAt) * direction;
+      entries.sort(byTime);
+      archiveEntries.sort(byTime);
+    }
+    
+    this.entries = entries;
+    this.archiveEntries = archiveEntries;
+  }
+  
+  /**
+   * Resolve the rotating storage template this store's file belongs to
+   */
+  private resolveTemplate(): string | null {
+    const { storagePath } = this.settings;
+    
+    if (isStoragePathTemplate(storagePath) && matchesStoragePath(storagePath, this.file.path)) {
+      return storagePath;
+    }
+    
+    return null;
+  }
+  
+  /**
+   * Parse a file of the stream, accepting previously used timestamp formats
+   *
+   * @param previous - Parse of an earlier version of the text; only the
+   *                   region that changed since is parsed again
+   */
+  private parse(text: string, previous?: ParsedMomentsDoc): ParsedMomentsDoc {
+    const { timestampFormat, timestampFormatHistory } = this.settings;
+    return previous
+      ? reparseMomentsDoc(previous, text, timestampFormat, timestampFormatHistory)
+      : parseMomentsDoc(text, timestampFormat, timestampFormatHistory);
+  }
+  
+  /**
+   * Parse a file's text, reusing the loaded parse of the file
+   *
+   * Large files are written many times; re-parsing only the region that
+   * changed keeps a capture as fast with ten thousand entries as with ten.
+   */
+  private parseFile(file: TFile, text: string): ParsedMomentsDoc {
+    return this.parse(text, this.files.get(file.path)?.parsed);
+  }
+  
+  /**
+   * Get the effective settings for a file's text (frontmatter overrides applied)
+   */
+  private getTextSettings(text: string): MomentsSettings {
+    return resolveFileSettings(this.settings, parseMomentsFrontmatter(text));
+  }
+  
+  /**
+   * Get the loaded stream file owning an entry
+   */
+  private getEntryFile(id: EntryId): StreamFile | null {
+    const path = this.entryPaths.get(id);
+    return path ? this.files.get(path) ?? null : null;
+  }
+  
+  getEntries(): MomentEntry[] {
+    return this.entries;
+  }
+  
+  getArchivedEntries(): MomentEntry[] {
+    return this.archiveEntries;
+  }
+  
+  getErrors(): ParsedMomentsDoc["errors"] {
+    return [
+      ...[...this.files.values()].flatMap(({ file, parsed }) =>
+        parsed.errors.map(error => ({ ...error, path: file.path }))
+      ),
+      ...this.duplicateErrors,
+    ];
+  }
+  
+  updateSettings(settings: MomentsSettings): void {
+    this.settings = settings;
+    
+    const template = this.resolveTemplate();
+    if (template !== this.template) {
+      this.template = template;
+      void this.load();
+    } else {
+      this.rebuildEntries();
+    }
+  }
+  
+  ownsPath(path: string): boolean {
+    if (this.files.has(path)) return true;
+    return !!this.template && matchesStoragePath(this.template, path);
+  }
+  
+  async addEntry(content: string, createdAt?: number): Promise<EntryId | null> {
+    const file = await this.getCaptureFile(createdAt ?? now());
+    if (!file) return null;
+    
+    const id = generateBlockId(new Set(this.entryPaths.keys()));
+    const written = await this.queueWrite(file, async (currentText, parsed) => {
+      const fileSettings = this.getTextSettings(currentText);
+      const text = insertEntry(
+        currentText,
+        content,
+        fileSettings.insertion,
+        fileSettings.timestampFormat,
+        id,
+        parsed,
+        createdAt
+      );
+      return { text, intent: { added: [id] } };
+    });
+    
+    return written ? id : null;
+  }
+  
+  /**
+   * Get the file new entries created at a time are captured into
+   *
+   * For a rotating stream this is the file of that period (the current
+   * one, unless backdated), which is created on demand.
+   */
+  private async getCaptureFile(createdAt: number): Promise<TFile | null> {
+    if (!this.template) return this.file;
+    
+    const path = formatStoragePath(this.template, createdAt);
+    const existing = this.files.get(path);
+    if (existing) return existing.file;
+    
+    const result = await ensureMomentsFile(this.app, path, true);
+    if (!result.success || !result.data) {
+      console.error("Failed to create Moments file:", result.error);
+      new Notice(`Moments: ${result.error ?? "could not create file"}`);
+      return null;
+    }
+    
+    return result.data;
+  }
+  
+  async updateEntry(id: EntryId, content: string, expectedRaw?: string, createdAt?: number): Promise<boolean> {
+    const streamFile = this.getEntryFile(id);
+    const cached = this.findCachedEntry(id);
+    if (!streamFile || !cached) return false;
+    
+    const expected = expectedRaw ?? cached.raw;
+    
+    return this.queueWrite(streamFile.file, async (currentText, parsed) => {
+      const fileSettings = this.getTextSettings(currentText);
+      const located = this.locateEntry(parsed, cached);
+      if (!located) return null;
+      
+      if (located.entry.raw !== expected && located.entry.raw !== content) {
+        const overwrite = await confirmWriteConflict(this.app, {
+          action: "edit",
+          current: located.entry.raw,
+          incoming: content,
+        });
+        if (!overwrite) return null;
+      }
+      
+      let text = replaceEntrySpan(
+        currentText,
+        located.span,
+        content,
+        fileSettings.timestampFormat,
+        true, // keep original timestamp
+        fileSettings.timestampFormatHistory,
+        parsed,
+        createdAt
+      );
+      // A moment moved to another period stays in its file
+      if (createdAt !== undefined && parsed.entries.includes(located.entry)) {
+        text = moveEntryToChronologicalPosition(
+          text,
+          located.entry.id,
+          fileSettings.insertion,
+          fileSettings.timestampFormat,
+          reparseMomentsDoc(parsed, text, fileSettings.timestampFormat, fileSettings.timestampFormatHistory)
+        );
+      }
+      return { text, intent: { changed: [located.entry] } };
+    });
+  }
+  
+  async deleteEntry(id: EntryId, options: { permanent?: boolean } = {}): Promise<DeletedEntryInfo | null> {
+    const streamFile = this.getEntryFile(id);
+    const cached = this.findCachedEntry(id);
+    if (!streamFile || !cached) return null;
+    
+    const { file } = streamFile;
+    let deleted: DeletedEntryInfo | null = null;
+    
+    const written = await this.queueWrite(file, async (text, parsed) => {
+      const located = this.locateEntry(parsed, cached);
+      if (!located) return null;
+      
+      if (located.entry.raw !== cached.raw) {
+        const confirmed = await confirmWriteConflict(this.app, {
+          action: "delete",
+          current: located.entry.raw,
+        });
+        if (!confirmed) return null;
+      }
+      
+      const { entry, span } = located;
+      
+      // Remember the neighbours (in file order) to restore the position
+      const entries = parsed.entries;
+      const index = entries.findIndex(e => e.id === entry.id);
+      const afterId = index > 0 ? entries[index - 1]?.id : undefined;
+      const beforeId = index >= 0 ? entries[index + 1]?.id : undefined;
+      
+      const fileSettings = resolveFileSettings(this.settings, parsed.frontmatter);
+      const archive = fileSettings.softDeleteToArchive && !options.permanent && index >= 0;
+      
+      // Store for undo
+      deleted = {
+        id: entry.id,
+        entryBlock: getEntryBlockText(text, span),
+        insertionHint: afterId ? "afterId" : "prepend",
+        afterId,
+        beforeId,
+        sourcePath: file.path,
+        archived: archive,
+        fromArchive: index < 0,
+        archiveMonth: entry.archiveMonth,
+        deletedAt: Date.now(),
+      };
+      
+      return archive
+        ? { text: moveToArchive(text, span, fileSettings.timestampFormat, parsed, fileSettings.archiveByMonth), intent: { changed: [entry] } }
+        : { text: deleteEntrySpan(text, span), intent: { removed: [entry] } };
+    });
+    
+    return written ? deleted : null;
+  }
+  
+  async setArchived(ids: EntryId[], archived: boolean): Promise<EntryId[]> {
+    const moved: EntryId[] = [];
+    
+    for (const [file, fileIds] of this.groupByFile(ids)) {
+      let changed: MomentEntry[] = [];
+      
+      const written = await this.queueWrite(file, async (currentText, parsed) => {
+        const fileSettings = this.getTextSettings(currentText);
+        changed = (archived ? parsed.entries : parsed.archiveEntries).filter(e => fileIds.has(e.id));
+        if (changed.length === 0) return null;
+        
+        const changedIds = changed.map(e => e.id);
+        const text = archived
+          ? moveEntriesToArchive(currentText, changedIds, fileSettings.timestampFormat, parsed, fileSettings.archiveByMonth)
+          : moveEntriesFromArchive(currentText, changedIds, fileSettings.insertion, fileSettings.timestampFormat, parsed);
+        return { text, intent: { changed } };
+      });
+      
+      if (written) moved.push(...changed.map(e => this.getListedId(file.path, e.id)));
+    }
+    
+    return moved;
+  }
+  
+  async purgeEntries(ids: EntryId[]): Promise<number> {
+    let count = 0;
+    
+    for (const [file, fileIds] of this.groupByFile(ids)) {
+      let removed: MomentEntry[] = [];
+      
+      // Keep the version being purged, whatever the snapshot interval
+      const written = await this.queueWrite(file, async (currentText, parsed) => {
+        removed = [...parsed.entries, ...parsed.archiveEntries].filter(e => fileIds.has(e.id));
+        
+        const spans = removed
+          .map(e => parsed.spans.get(e.id))
+          .filter((span): span is EntrySpan => !!span)
+          .sort((a, b) => a.start - b.start);
+        const text = deleteEntrySpans(currentText, spans);
+        
+        return removed.length > 0 ? { text, intent: { removed } } : null;
+      }, { forceSnapshot: true });
+      
+      if (written) count += removed.length;
+    }
+    
+    return count;
+  }
+  
+  /**
+   * Group entry ids by the loaded file holding them
+   */
+  private groupByFile(ids: EntryId[]): Map<TFile, Set<EntryId>> {
+    const groups: Map<TFile, Set<EntryId>> = new Map();
+    
+    for (const id of ids) {
+      const streamFile = this.getEntryFile(id);
+      if (!streamFile) continue;
+      
+      const group = groups.get(streamFile.file) ?? new Set();
+      group.add(this.fileIds.get(id) ?? id);
+      groups.set(streamFile.file, group);
+    }
+    
+    return groups;
+  }
+  
+  /**
+   * Get the id an entry of a file is listed under (see rebuildEntries)
+   */
+  private getListedId(path: string, blockId: EntryId): EntryId {
+    const id = this.duplicateIds.get(`${path}\n${blockId}`);
+    return id && this.fileIds.get(id) === blockId ? id : blockId;
+  }
+  
+  /**
+   * Get an entry from the loaded state
+   */
+  private findCachedEntry(id: EntryId): MomentEntry | undefined {
+    return this.entries.find(e => e.id === id) ?? this.archiveEntries.find(e => e.id === id);
+  }
+  
+  /**
+   * Find an entry in freshly parsed text by its block id
+   *
+   * An entry without a block id in the file gets a new id on every parse,
+   * so it is matched by its text instead.
+   */
+  private locateEntry(
+    parsed: ParsedMomentsDoc,
+    cached: MomentEntry
+  ): { entry: MomentEntry; span: EntrySpan } | null {
+    const all = [...parsed.entries, ...parsed.archiveEntries];
+    const fileId = this.fileIds.get(cached.id);
+    const entry = all.find(e => e.id === (fileId ?? cached.id))
+      ?? (cached.idMissing ? all.find(e => e.idMissing && e.rawWithPrefix === cached.rawWithPrefix) : undefined);
+    const span = entry ? parsed.spans.get(entry.id) : undefined;
+    
+    if (!entry || !span) {
+      new Notice("Moments: this moment is no longer in the file, nothing was changed");
+      return null;
+    }
+    
+    return { entry, span };
+  }
+  
+  async restoreEntry(deleted: DeletedEntryInfo): Promise<boolean> {
+    const file = this.files.get(deleted.sourcePath)?.file;
+    if (!file) return false;
+    
+    return this.queueWrite(file, async (currentText, parsed) => {
+      const fileSettings = this.getTextSettings(currentText);
+      const text = restoreEntryBlock(
+        currentText,
+        deleted,
+        fileSettings.timestampFormat,
+        fileSettings.timestampFormatHistory
+      );
+      
+      // A soft-deleted entry moves back out of the archive
+      const archived = parsed.archiveEntries.find(e => e.id === deleted.id);
+      return { text, intent: archived ? { changed: [archived] } : { added: [deleted.id] } };
+    });
+  }
+  
+  async repairBlockIds(): Promise<number> {
+    let count = 0;
+    
+    for (const { file, parsed } of [...this.files.values()]) {
+      // Block ids also used in an earlier file get the id they are listed under
+      const renames: Map<EntryId, EntryId> = new Map();
+      for (const [id, blockId] of this.fileIds) {
+        if (this.entryPaths.get(id) === file.path) renames.set(blockId, id);
+      }
+      
+      const needsRepair = renames.size > 0 || [...parsed.entries, ...parsed.archiveEntries].some(e => e.idMissing);
+      if (!needsRepair) continue;
+      
+      let repaired = 0;
+      const written = await this.queueWrite(file, async (currentText) => {
+        const repair = repairBlockIds(
+          currentText,
+          this.settings.timestampFormat,
+          this.settings.timestampFormatHistory,
+          renames
+        );
+        repaired = repair.repaired.length + repair.renamed.length;
+        return {
+          text: repair.text,
+          intent: {
+            changed: repair.repaired,
+            removed: repair.renamed.map(({ entry }) => entry),
+            added: repair.renamed.map(({ id }) => id),
+          },
+        };
+      });
+      if (written) count += repaired;
+    }
+    
+    return count;
+  }
+  
+  async previewTimestampMigration(): Promise<TimestampMigrationPreview> {
+    const preview: TimestampMigrationPreview = { changed: 0, unparseable: [] };
+    
+    for (const { file } of this.files.values()) {
+      const result = await readMomentsFile(this.app, file);
+      if (!result.success || result.data === undefined) continue;
+      
+      const { changed, unparseable } = this.migrateText(result.data);
+      preview.changed += changed.length;
+      preview.unparseable.push(...unparseable);
+    }
+    
+    return preview;
+  }
+  
+  async migrateTimestamps(): Promise<number> {
+    let count = 0;
+    
+    for (const { file } of [...this.files.values()]) {
+      let migrated = 0;
+      const written = await this.queueWrite(file, async (currentText) => {
+        const migration = this.migrateText(currentText);
+        migrated = migration.changed.length;
+        return { text: migration.text, intent: { changed: migration.changed } };
+      });
+      if (written) count += migrated;
+    }
+    
+    return count;
+  }
+  
+  /**
+   * Rewrite a file's timestamp prefixes to the current format
+   */
+  private migrateText(text: string): ReturnType<typeof migrateTimestampPrefixes> {
+    return migrateTimestampPrefixes(
+      text,
+      this.settings.timestampFormat,
+      this.settings.timestampFormatHistory
+    );
+  }
+  
+  async listSnapshots(): Promise<MomentsSnapshot[]> {
+    const snapshots: MomentsSnapshot[] = [];
+    
+    for (const { file } of this.files.values()) {
+      snapshots.push(...await listSnapshots(this.app, this.settings.snapshotFolder, file.path));
+    }
+    
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  }
+  
+  async diffSnapshot(snapshot: MomentsSnapshot): Promise<EntryChange[] | null> {
+    const file = this.files.get(snapshot.sourcePath)?.file;
+    if (!file) return null;
+    
+    const [backup, current] = await Promise.all([
+      readSnapshot(this.app, snapshot),
+      readMomentsFile(this.app, file),
+    ]);
+    if (!backup.success || backup.data === undefined) {
+      console.error("Failed to read snapshot:", backup.error);
+      return null;
+    }
+    if (!current.success || current.data === undefined) return null;
+    
+    return diffMomentsDocs(
+      backup.data,
+      current.data,
+      this.settings.timestampFormat,
+      this.settings.timestampFormatHistory
+    );
+  }
+  
+  async restoreSnapshot(snapshot: MomentsSnapshot, ids?: EntryId[]): Promise<boolean> {
+    const file = this.files.get(snapshot.sourcePath)?.file;
+    if (!file) return false;
+    
+    const backup = await readSnapshot(this.app, snapshot);
+    if (!backup.success || backup.data === undefined) {
+      console.error("Failed to read snapshot:", backup.error);
+      return false;
+    }
+    const backupText = backup.data;
+    
+    // Keep the version being replaced, whatever the snapshot interval
+    return this.queueWrite(file, async (currentText, parsed) => {
+      if (!ids) return { text: backupText, intent: null };
+      
+      const text = restoreEntryStates(
+        currentText,
+        backupText,
+        ids,
+        this.settings.timestampFormat,
+        this.settings.timestampFormatHistory
+      );
+      
+      // Entries still in the file change, the others come back
+      const current = [...parsed.entries, ...parsed.archiveEntries];
+      const changed = current.filter(e => ids.includes(e.id));
+      const added = ids.filter(id => !changed.some(e => e.id === id));
+      return { text, intent: { changed, added } };
+    }, { forceSnapshot: true });
+  }
+  
+  /**
+   * Store a snapshot of a file's contents before it is written
+   *
+   * Skipped when snapshots are disabled or the file's latest snapshot is
+   * more recent than the snapshot interval (unless forced). A failed
+   * snapshot does not stop the write.
+   */
+  private async takeSnapshot(file: TFile, text: string, force = false): Promise<void> {
+    const { snapshotCount, snapshotIntervalMinutes, snapshotFolder } = this.settings;
+    if (snapshotCount <= 0) return;
+    
+    if (!force) {
+      const last = this.lastSnapshotAt.get(file.path)
+        ?? (await listSnapshots(this.app, snapshotFolder, file.path))[0]?.createdAt
+        ?? 0;
+      if (Date.now() - last < snapshotIntervalMinutes * 60 * 1000) return;
+    }
+    
+    const result = await writeSnapshot(this.app, snapshotFolder, file.path, text, snapshotCount);
+    if (!result.success || !result.data) {
+      console.error("Failed to snapshot Moments file:", result.error);
+      return;
+    }
+    
+    this.lastSnapshotAt.set(file.path, result.data.createdAt);
+  }
+  
+  /**
+   * Queue a write operation on one file (serializes file writes)
+   *
+   * The transformed content is refused when it changes more than its
+   * intent allows, so a bug in a format function cannot destroy entries.
+   *
+   * @param transform - Build the new content from the file's text and its parse (null aborts)
+   * @param options.forceSnapshot - Snapshot the file even within the snapshot interval
+   * @returns True if the transformed content was written (or was unchanged),
+   *          false if the write failed or the transform aborted it
+   */
+  private async queueWrite(
+    file: TFile,
+    transform: (currentText: string, parsed: ParsedMomentsDoc) => Promise<FileUpdate | null> | FileUpdate | null,
+    options: { forceSnapshot?: boolean } = {}
+  ): Promise<boolean> {
+    let written = false;
+    
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        // Read current file content
+        const result = await readMomentsFile(this.app, file);
+        if (!result.success || result.data === undefined) {
+          console.error("Failed to read file for write:", result.error);
+          return;
+        }
+        const base = result.data;
+        const baseHash = hashText(base);
+        const baseParsed = this.parseFile(file, base);
+        
+        // Transform content (null aborts the write)
+        const update = await transform(base, baseParsed);
+        if (update === null) return;
+        const newContent = update.text;
+        if (newContent === base) {
+          written = true;
+          return;
+        }
+        
+        // Refuse content that changes more than intended
+        const parsed = this.parse(newContent, baseParsed);
+        const violation = update.intent && verifyWrite(baseParsed, parsed, update.intent);
+        if (violation) {
+          console.error("Refused unsafe write to", file.path, ":", violation);
+          new Notice(`Moments: the change was not saved because ${violation}. The file was left unchanged.`);
+          return;
+        }
+        
+        await this.takeSnapshot(file, base, options.forceSnapshot);
+        
+        // Mark as self-modified to avoid re-parsing loop
+        this.selfModified.add(file.path);
+        
+        // Write back atomically. If the file changed while the transform
+        // ran (sync, another editor), merge our change in entry by entry.
+        let conflicts: MomentEntry[] = [];
+        // Assigned in the callback (declared so TypeScript does not narrow it to null)
+        let refusal = null as string | null;
+        const writeResult = await processMomentsFile(this.app, file, (current) => {
+          if (hashText(current) === baseHash) return newContent;
+          
+          refusal = checkMerge(update.intent);
+          if (refusal) return current;
+          
+          const merge = mergeMomentsDocs(
+            base,
+            newContent,
+            current,
+            this.settings.timestampFormat,
+            this.settings.timestampFormatHistory
+          );
+          
+          // The merged text must make the same change to the file's version
+          refusal = update.intent && verifyWrite(this.parse(current), this.parse(merge.text), update.intent);
+          if (refusal) return current;
+          
+          conflicts = merge.conflicts;
+          return merge.text;
+        });
+        if (!writeResult.success || writeResult.data === undefined) {
+          console.error("Failed to write file:", writeResult.error);
+          return;
+        }
+        if (refusal) {
+          console.error("Refused unsafe merge into", file.path, ":", refusal);
+          new Notice(`Moments: the change was not saved because the file changed meanwhile and ${refusal}. The file was left unchanged.`);
+          return;
+        }
+        written = true;
+        
+        if (conflicts.length > 0) {
+          const count = conflicts.length;
+          new Notice(
+            `Moments: ${count} ${count === 1 ? "moment was" : "moments were"} changed in the file at the same time, kept the file's version`
+          );
+        }
+        
+        // Re-parse to update state (only a merge leaves anything to parse)
+        const data = writeResult.data;
+        this.files.set(file.path, this.createStreamFile(file, data, this.parse(data, parsed)));
+        this.rebuildEntries();
+        this.onChange();
+      
+      } catch (e) {
+        // A failed write must not stop the writes queued after it
+        console.error("Moments write failed:", e);
+        new Notice("Moments: the change could not be saved. See the developer console for details.");
+      } finally {
+        this.selfModified.delete(file.path);
+      }
+    });
+    
+    await this.writeQueue;
+    return written;
+  }
+
+  
+  async onExternalModify(file: TFile): Promise<void> {
+    // Skip if we triggered this modification
+    if (this.selfModified.has(file.path)) return;
+    
+    await this.loadFile(file);
+  }
+  
+  onExternalDelete(path: string): void {
+    if (!this.files.delete(path)) return;
+    
+    this.rebuildEntries();
+    this.onChange();
+  }
+  
+  destroy(): void {
+    this.files.clear();
+    this.entryPaths.clear();
+    this.entries = [];
+    this.archiveEntries = [];
+    this.lastSnapshotAt.clear();
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Moments Store - Storage Backend Interface
+ *
+ * The contract between MomentsStateManager and a storage backend.
+ * A store owns the files of one stream: it loads them, keeps the parsed
+ * entries in memory and serializes writes back to the vault.
+ *
+ * Backends:
+ * - ListMomentsStore: entries are list items in one (or rotating) Markdown file
+ * - NoteMomentsStore: every entry is its own note in a folder
+ */
+
+import type { TFile } from "obsidian";
+import type {
+  MomentEntry,
+  ParsedMomentsDoc,
+  EntryId,
+  DeletedEntryInfo,
+  TimestampMigrationPreview,
+  MomentsSnapshot,
+  EntryChange,
+} from "../types";
+import type { MomentsSettings } from "../settings";
+
+/**
+ * Callback invoked by a store whenever its entries change
+ */
+export type StoreChangeCallback = () => void;
+
+/**
+ * Storage backend for a Moments stream
+ */
+export interface MomentsStore {
+  /** Load (or reload) all entries from the vault */
+  load(): Promise<void>;
+  
+  /** Active entries, in display order */
+  getEntries(): MomentEntry[];
+  
+  /** Archived entries, in display order */
+  getArchivedEntries(): MomentEntry[];
+  
+  /** Problems found while parsing the stored entries */
+  getErrors(): ParsedMomentsDoc["errors"];
+  
+  /**
+   * Capture a new entry
+   *
+   * A backdated entry is placed at its chronological position.
+   *
+   * @param createdAt - Creation time in epoch milliseconds (defaults to now)
+   * @returns Id of the new entry, or null if it could not be written
+   */
+  addEntry(content: string, createdAt?: number): Promise<EntryId | null>;
+  
+  /**
+   * Replace an entry's content, keeping its id (and its timestamp unless
+   * a new one is given; an active entry then moves to its chronological
+   * position)
+   *
+   * The entry is located by id in the current file content. If its content
+   * differs from `expectedRaw` (the content the change was based on), the
+   * user is asked before overwriting.
+   *
+   * @param createdAt - New creation time in epoch milliseconds
+   * @returns True if the entry was written
+   */
+  updateEntry(id: EntryId, content: string, expectedRaw?: string, createdAt?: number): Promise<boolean>;
+  
+  /**
+   * Delete an entry (or move it to the archive when soft delete is enabled)
+   *
+   * @param options.permanent - Remove the entry even when soft delete is enabled
+   * @returns Information to restore the entry, or null if it was not found
+   */
+  deleteEntry(id: EntryId, options?: { permanent?: boolean }): Promise<DeletedEntryInfo | null>;
+  
+  /**
+   * Restore a previously deleted entry
+   *
+   * @returns True if the entry was restored
+   */
+  restoreEntry(deleted: DeletedEntryInfo): Promise<boolean>;
+  
+  /**
+   * Move entries into or out of the archive, in one write per file
+   *
+   * An entry taken out of the archive goes back to its chronological
+   * position among the active entries.
+   *
+   * @returns Ids of the entries that were moved
+   */
+  setArchived(ids: EntryId[], archived: boolean): Promise<EntryId[]>;
+  
+  /**
+   * Permanently remove entries, in one write per file
+   *
+   * @returns Number of entries removed
+   */
+  purgeEntries(ids: EntryId[]): Promise<number>;
+  
+  /**
+   * Write generated ids back for entries missing a (unique) block id
+   *
+   * @returns Number of entries repaired
+   */
+  repairBlockIds(): Promise<number>;
+  
+  /** Count the entries whose timestamp prefix is not in the current format */
+  previewTimestampMigration(): Promise<TimestampMigrationPreview>;
+  
+  /**
+   * Rewrite every timestamp prefix to the current format
+   *
+   * @returns Number of entries rewritten
+   */
+  migrateTimestamps(): Promise<number>;
+  
+  /** Backup snapshots of the stream's files, newest first */
+  listSnapshots(): Promise<MomentsSnapshot[]>;
+  
+  /**
+   * Compare a snapshot with the current contents of its file
+   *
+   * @returns Entries changed since the snapshot, or null if it could not be read
+   */
+  diffSnapshot(snapshot: MomentsSnapshot): Promise<EntryChange[] | null>;
+  
+  /**
+   * Restore entries (or, without ids, the whole file) from a snapshot
+   *
+   * @returns True if the file was written
+   */
+  restoreSnapshot(snapshot: MomentsSnapshot, ids?: EntryId[]): Promise<boolean>;
+  
+  /** Check if a vault path belongs to this store */
+  ownsPath(path: string): boolean;
+  
+  /** Handle a file of the store being modified or created outside the store */
+  onExternalModify(file: TFile): Promise<void>;
+  
+  /** Handle a file of the store being deleted or renamed away */
+  onExternalDelete(path: string): void;
+  
+  /** Update settings reference */
+  updateSettings(settings: MomentsSettings): void;
+  
+  /** Release in-memory state */
+  destroy(): void;
+}
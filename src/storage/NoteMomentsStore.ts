@@ -0,0 +1,534 @@
+/**
+ * Note Moments Store - One Note per Moment Backend
+ *
+ * Stores every entry as its own note in a folder (see notesFormat.ts).
+ * Archived entries are moved into an "Archive" subfolder.
+ */
+
+import { App, Notice, TFile, normalizePath } from "obsidian";
+import type {
+  MomentEntry,
+  ParsedMomentsDoc,
+  EntryId,
+  DeletedEntryInfo,
+  TimestampMigrationPreview,
+  MomentsSnapshot,
+  EntryChange,
+} from "../types";
+import type { MomentsSettings } from "../settings";
+import type { MomentsStore, StoreChangeCallback } from "./MomentsStore";
+import {
+  parseMomentNote,
+  createMomentNote,
+  replaceMomentNoteBody,
+  getMomentNoteFileName,
+} from "./notesFormat";
+import { ensureFolder, getFileByPath, readMomentsFile } from "./momentsIO";
+import { generateBlockId } from "../utils/id";
+import { now } from "../utils/time";
+import { confirmWriteConflict } from "../ui/modals/WriteConflictModal";
+
+/** Name of the archive subfolder inside the notes folder */
+const ARCHIVE_FOLDER = "Archive";
+
+/**
+ * A loaded moment note
+ */
+interface MomentNote {
+  file: TFile;
+  entry: MomentEntry;
+  archived: boolean;
+  errors: ParsedMomentsDoc["errors"];
+}
+
+/**
+ * Store backed by a folder of moment notes
+ */
+export class NoteMomentsStore implements MomentsStore {
+  private app: App;
+  private settings: MomentsSettings;
+  private onChange: StoreChangeCallback;
+  
+  /** Loaded notes, keyed by path */
+  private notes: Map<string, MomentNote> = new Map();
+  
+  /** Path of the note that holds each entry */
+  private entryPaths: Map<EntryId, string> = new Map();
+  
+  /** Active entries in display order */
+  private entries: MomentEntry[] = [];
+  
+  /** Archived entries in display order */
+  private archiveEntries: MomentEntry[] = [];
+  
+  /** Write queue for serializing file operations */
+  private writeQueue: Promise<void> = Promise.resolve();
+  
+  /** Paths of notes we are currently writing (to skip our own modify events) */
+  private selfModified: Set<string> = new Set();
+  
+  constructor(app: App, settings: MomentsSettings, onChange: StoreChangeCallback) {
+    this.app = app;
+    this.settings = settings;
+    this.onChange = onChange;
+  }
+  
+  /**
+   * Folder holding the moment notes
+   */
+  private get folder(): string {
+    return normalizePath(this.settings.notesFolder);
+  }
+  
+  /**
+   * Folder holding archived moment notes
+   */
+  private get archiveFolder(): string {
+    return normalizePath(`${this.folder}/${ARCHIVE_FOLDER}`);
+  }
+  
+  async load(): Promise<void> {
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter(file => this.ownsPath(file.path));
+    
+    this.notes.clear();
+    this.entryPaths.clear();
+    
+    for (const file of files) {
+      const note = await this.readNote(file);
+      if (note) {
+        this.setNote(note);
+      }
+    }
+    
+    this.rebuildEntries();
+    this.onChange();
+  }
+  
+  /**
+   * Read and parse a single note
+   */
+  private async readNote(file: TFile): Promise<MomentNote | null> {
+    const result = await readMomentsFile(this.app, file);
+    if (!result.success || result.data === undefined) return null;
+    
+    // Ids of other notes (a note keeps its own id on re-read)
+    const existingIds = new Set(this.entryPaths.keys());
+    const previous = this.notes.get(file.path);
+    if (previous) {
+      existingIds.delete(previous.entry.id);
+    }
+    
+    const { entry, errors } = parseMomentNote(
+      result.data,
+      this.settings.timestampFormat,
+      file.stat.ctime,
+      existingIds
+    );
+    if (!entry) return null;
+    
+    return {
+      file,
+      entry,
+      archived: file.path.startsWith(`${this.archiveFolder}/`),
+      errors,
+    };
+  }
+  
+  /**
+   * Add or replace a note in the in-memory index
+   */
+  private setNote(note: MomentNote): void {
+    this.removeNote(note.file.path);
+    this.notes.set(note.file.path, note);
+    this.entryPaths.set(note.entry.id, note.file.path);
+  }
+  
+  /**
+   * Remove a note from the in-memory index
+   */
+  private removeNote(path: string): boolean {
+    const note = this.notes.get(path);
+    if (!note) return false;
+    
+    this.notes.delete(path);
+    if (this.entryPaths.get(note.entry.id) === path) {
+      this.entryPaths.delete(note.entry.id);
+    }
+    return true;
+  }
+  
+  /**
+   * Rebuild the time-ordered entry lists following the insertion setting
+   */
+  private rebuildEntries(): void {
+    const direction = this.settings.insertion === "prepend" ? -1 : 1;
+    const byTime = (a: MomentEntry, b: MomentEntry) => (a.createdAt - b.createdAt) * direction;
+    const notes = [...this.notes.values()];
+    
+    this.entries = notes.filter(n => !n.archived).map(n => n.entry).sort(byTime);
+    this.archiveEntries = notes.filter(n => n.archived).map(n => n.entry).sort(byTime);
+  }
+  
+  /**
+   * Get the loaded note holding an entry
+   */
+  private getEntryNote(id: EntryId): MomentNote | null {
+    const path = this.entryPaths.get(id);
+    return path ? this.notes.get(path) ?? null : null;
+  }
+  
+  getEntries(): MomentEntry[] {
+    return this.entries;
+  }
+  
+  getArchivedEntries(): MomentEntry[] {
+    return this.archiveEntries;
+  }
+  
+  getErrors(): ParsedMomentsDoc["errors"] {
+    return [...this.notes.values()].flatMap(note =>
+      note.errors.map(error => ({ ...error, path: note.file.path }))
+    );
+  }
+  
+  updateSettings(settings: MomentsSettings): void {
+    this.settings = settings;
+    this.rebuildEntries();
+  }
+  
+  /**
+   * Notes directly in the notes folder or its archive subfolder (other
+   * subfolders hold the user's own notes)
+   */
+  ownsPath(path: string): boolean {
+    if (!path.endsWith(".md")) return false;
+    const parent = path.substring(0, path.lastIndexOf("/"));
+    return parent === this.folder || parent === this.archiveFolder;
+  }
+  
+  async addEntry(content: string, createdAt: number = now()): Promise<EntryId | null> {
+    let added: EntryId | null = null;
+    
+    await this.enqueue(async () => {
+      const id = generateBlockId(new Set(this.entryPaths.keys()));
+      
+      await ensureFolder(this.app, this.folder);
+      const path = this.getAvailablePath(this.folder, getMomentNoteFileName(createdAt));
+      
+      this.selfModified.add(path);
+      try {
+        const file = await this.app.vault.create(path, createMomentNote(content, id, createdAt));
+        const note = await this.readNote(file);
+        if (note) {
+          this.setNote(note);
+          added = note.entry.id;
+        }
+      } finally {
+        this.selfModified.delete(path);
+      }
+    });
+    
+    return added;
+  }
+  
+  async updateEntry(id: EntryId, content: string, expectedRaw?: string, createdAt?: number): Promise<boolean> {
+    let updated = false;
+    
+    await this.enqueue(async () => {
+      const note = this.getEntryNote(id);
+      if (!note) return;
+      
+      const current = await this.readNote(note.file);
+      const expected = expectedRaw ?? note.entry.raw;
+      if (current && current.entry.raw !== expected && current.entry.raw !== content) {
+        const overwrite = await confirmWriteConflict(this.app, {
+          action: "edit",
+          current: current.entry.raw,
+          incoming: content,
+        });
+        if (!overwrite) return;
+      }
+      
+      this.selfModified.add(note.file.path);
+      try {
+        let replaced = false;
+        await this.app.vault.process(note.file, (text) => {
+          const next = replaceMomentNoteBody(text, content, createdAt);
+          replaced = next !== null;
+          return next ?? text;
+        });
+        if (!replaced) {
+          new Notice(`Moments: the change was not saved because the frontmatter of ${note.file.path} is not valid YAML.`);
+          return;
+        }
+        const reread = await this.readNote(note.file);
+        if (reread) {
+          this.setNote(reread);
+          updated = true;
+        }
+      } finally {
+        this.selfModified.delete(note.file.path);
+      }
+    });
+    
+    return updated;
+  }
+  
+  async deleteEntry(id: EntryId, options: { permanent?: boolean } = {}): Promise<DeletedEntryInfo | null> {
+    let deleted: DeletedEntryInfo | null = null;
+    
+    await this.enqueue(async () => {
+      const note = this.getEntryNote(id);
+      if (!note) return;
+      
+      const result = await readMomentsFile(this.app, note.file);
+      if (!result.success || result.data === undefined) return;
+      
+      const current = await this.readNote(note.file);
+      if (current && current.entry.raw !== note.entry.raw) {
+        const confirmed = await confirmWriteConflict(this.app, {
+          action: "delete",
+          current: current.entry.raw,
+        });
+        if (!confirmed) return;
+      }
+      
+      const archive = this.settings.softDeleteToArchive && !options.permanent && !note.archived;
+      const info: DeletedEntryInfo = {
+        id,
+        entryBlock: result.data,
+        insertionHint: "prepend",
+        sourcePath: note.file.path,
+        archived: archive,
+        fromArchive: note.archived,
+        deletedAt: Date.now(),
+      };
+      
+      const path = note.file.path;
+      this.selfModified.add(path);
+      try {
+        if (archive) {
+          await ensureFolder(this.app, this.archiveFolder);
+          const archivePath = this.getAvailablePath(this.archiveFolder, note.file.basename);
+          await this.app.fileManager.renameFile(note.file, archivePath);
+          this.removeNote(path);
+          this.setNote({ ...note, archived: true });
+        } else {
+          await this.app.fileManager.trashFile(note.file);
+          this.removeNote(path);
+        }
+        deleted = info;
+      } finally {
+        this.selfModified.delete(path);
+      }
+    });
+    
+    return deleted;
+  }
+  
+  async restoreEntry(deleted: DeletedEntryInfo): Promise<boolean> {
+    let restored = false;
+    
+    await this.enqueue(async () => {
+      const archived = this.getEntryNote(deleted.id);
+      const folder = deleted.sourcePath.substring(0, deleted.sourcePath.lastIndexOf("/"));
+      const basename = deleted.sourcePath.substring(folder.length + 1).replace(/\.md$/, "");
+      const path = this.getAvailablePath(folder, basename);
+      
+      this.selfModified.add(path);
+      try {
+        if (archived?.archived) {
+          // Soft-deleted: move the archived note back
+          const archivedPath = archived.file.path;
+          this.selfModified.add(archivedPath);
+          await this.app.fileManager.renameFile(archived.file, path);
+          this.removeNote(archivedPath);
+          this.selfModified.delete(archivedPath);
+        } else {
+          await ensureFolder(this.app, folder);
+          await this.app.vault.create(path, deleted.entryBlock);
+        }
+        
+        const file = getFileByPath(this.app, path);
+        const note = file ? await this.readNote(file) : null;
+        if (note) {
+          this.setNote(note);
+          restored = true;
+        }
+      } finally {
+        this.selfModified.delete(path);
+      }
+    });
+    
+    return restored;
+  }
+  
+  async setArchived(ids: EntryId[], archived: boolean): Promise<EntryId[]> {
+    const moved: EntryId[] = [];
+    
+    await this.enqueue(async () => {
+      const folder = archived ? this.archiveFolder : this.folder;
+      
+      for (const id of ids) {
+        const note = this.getEntryNote(id);
+        if (!note || note.archived === archived) continue;
+        
+        const path = note.file.path;
+        const newPath = this.getAvailablePath(folder, note.file.basename);
+        this.selfModified.add(path);
+        this.selfModified.add(newPath);
+        try {
+          await ensureFolder(this.app, folder);
+          await this.app.fileManager.renameFile(note.file, newPath);
+          this.removeNote(path);
+          this.setNote({ ...note, archived });
+          moved.push(id);
+        } finally {
+          this.selfModified.delete(path);
+          this.selfModified.delete(newPath);
+        }
+      }
+    });
+    
+    return moved;
+  }
+  
+  async purgeEntries(ids: EntryId[]): Promise<number> {
+    let count = 0;
+    
+    await this.enqueue(async () => {
+      for (const id of ids) {
+        const note = this.getEntryNote(id);
+        if (!note) continue;
+        
+        const path = note.file.path;
+        this.selfModified.add(path);
+        try {
+          await this.app.fileManager.trashFile(note.file);
+          this.removeNote(path);
+          count++;
+        } finally {
+          this.selfModified.delete(path);
+        }
+      }
+    });
+    
+    return count;
+  }
+  
+  async repairBlockIds(): Promise<number> {
+    let count = 0;
+    
+    await this.enqueue(async () => {
+      for (const note of [...this.notes.values()]) {
+        if (!note.entry.idMissing) continue;
+        
+        this.selfModified.add(note.file.path);
+        try {
+          await this.app.fileManager.processFrontMatter(note.file, (frontmatter: Record<string, unknown>) => {
+            frontmatter.id = note.entry.id;
+          });
+          const repaired = await this.readNote(note.file);
+          if (repaired) {
+            this.setNote(repaired);
+            count++;
+          }
+        } finally {
+          this.selfModified.delete(note.file.path);
+        }
+      }
+    });
+    
+    return count;
+  }
+  
+  /**
+   * Notes keep their creation time as an ISO date in frontmatter,
+   * so there is never a prefix to migrate
+   */
+  async previewTimestampMigration(): Promise<TimestampMigrationPreview> {
+    return { changed: 0, unparseable: [] };
+  }
+  
+  async migrateTimestamps(): Promise<number> {
+    return 0;
+  }
+  
+  /**
+   * Every note is written on its own (a write never rewrites the whole
+   * stream), so no snapshots are taken; use file recovery instead
+   */
+  async listSnapshots(): Promise<MomentsSnapshot[]> {
+    return [];
+  }
+  
+  async diffSnapshot(): Promise<EntryChange[] | null> {
+    return null;
+  }
+  
+  async restoreSnapshot(): Promise<boolean> {
+    return false;
+  }
+  
+  /**
+   * Get a free note path in a folder, suffixing the name on collision
+   */
+  private getAvailablePath(folder: string, basename: string): string {
+    let path = normalizePath(`${folder}/${basename}.md`);
+    
+    for (let i = 1; this.app.vault.getAbstractFileByPath(path); i++) {
+      path = normalizePath(`${folder}/${basename} ${i}.md`);
+    }
+    
+    return path;
+  }
+  
+  /**
+   * Queue an operation (serializes file writes) and notify on completion
+   */
+  private async enqueue(operation: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await operation();
+      } catch (e) {
+        console.error("Moments note operation failed:", e);
+      }
+      
+      this.rebuildEntries();
+      this.onChange();
+    });
+    
+    await this.writeQueue;
+  }
+  
+  async onExternalModify(file: TFile): Promise<void> {
+    // Skip if we triggered this modification
+    if (this.selfModified.has(file.path)) return;
+    
+    const note = await this.readNote(file);
+    if (note) {
+      this.setNote(note);
+    } else {
+      this.removeNote(file.path);
+    }
+    
+    this.rebuildEntries();
+    this.onChange();
+  }
+  
+  onExternalDelete(path: string): void {
+    if (this.selfModified.has(path) || !this.removeNote(path)) return;
+    
+    this.rebuildEntries();
+    this.onChange();
+  }
+  
+  destroy(): void {
+    this.notes.clear();
+    this.entryPaths.clear();
+    this.entries = [];
+    this.archiveEntries = [];
+  }
+}
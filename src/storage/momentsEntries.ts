@@ -0,0 +1,66 @@
+/**
+ * Moments Entries - Entry States of a Document Version
+ *
+ * Indexes the entries of one version of a Moments file by block id, so
+ * two versions can be compared entry by entry: when a write is checked
+ * (momentsGuard) and when versions are merged, diffed or restored
+ * (momentsMerge).
+ */
+
+import type { EntryId, MomentEntry, ParsedMomentsDoc } from "../types";
+import { getEntryBlockText } from "./momentsFormat";
+
+/**
+ * State of one entry in a version of the document
+ */
+export interface EntryState {
+  entry: MomentEntry;
+  archived: boolean;
+  /** Entry block without trailing blank lines */
+  block: string;
+}
+
+/**
+ * Entries of a version of the document
+ */
+export interface IndexedEntries {
+  /** Entries with a block id in the file */
+  identified: Map<EntryId, EntryState>;
+  /** Entries without one (their parsed id changes on every parse) */
+  unidentified: EntryState[];
+}
+
+/**
+ * Index the entries of a version of the document
+ *
+ * Entries without a block id get a new random id on every parse, so they
+ * cannot be matched across versions by id and are kept apart.
+ */
+export function indexEntries(text: string, parsed: ParsedMomentsDoc): IndexedEntries {
+  const indexed: IndexedEntries = { identified: new Map(), unidentified: [] };
+
+  const add = (entry: MomentEntry, archived: boolean) => {
+    const span = parsed.spans.get(entry.id);
+    if (!span) return;
+
+    const state = { entry, archived, block: getEntryBlockText(text, span).trimEnd() };
+    if (entry.idMissing) {
+      indexed.unidentified.push(state);
+    } else {
+      indexed.identified.set(entry.id, state);
+    }
+  };
+
+  parsed.entries.forEach(entry => add(entry, false));
+  parsed.archiveEntries.forEach(entry => add(entry, true));
+
+  return indexed;
+}
+
+/**
+ * Check if an entry is in the same state in two versions (both absent counts)
+ */
+export function sameState(a: EntryState | undefined, b: EntryState | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.archived === b.archived && a.block === b.block;
+}
@@ -22,9 +22,19 @@
  *   ^m-xyz789
  */
 
-import type { MomentEntry, ParsedMomentsDoc, EntrySpan, EntryId } from "../types";
+import { getFrontMatterInfo, parseYaml } from "obsidian";
+import type {
+  MomentEntry,
+  ParsedMomentsDoc,
+  EntrySpan,
+  EntryId,
+  MomentsParseError,
+  DeletedEntryInfo,
+} from "../types";
+import type { MomentsSettings } from "../settings";
 import { generateBlockId, extractBlockId, stripBlockIdFromContent } from "../utils/id";
-import { extractTimestampPrefix, now, formatTimestamp } from "../utils/time";
+import { extractTimestampPrefixWithFallbacks, now, formatTimestamp } from "../utils/time";
+import { extractInlineFields } from "../utils/markdown";
 
 /** Frontmatter key that identifies a Moments file */
 export const FRONTMATTER_KEY = "moments-plugin";
@@ -35,22 +45,62 @@ const ARCHIVE_SEPARATOR = "***";
 /** Archive section heading */
 const ARCHIVE_HEADING = "## Archive";
 
+/** Month sub-heading in the archive, e.g. "### 2026-03" */
+const ARCHIVE_MONTH_HEADING_REGEX = /^### (\d{4}-\d{2})$/;
+
+/** Format of an archive month (as in its sub-heading) */
+const ARCHIVE_MONTH_FORMAT = "YYYY-MM";
+
 /** Regex to match list item start */
 const LIST_ITEM_REGEX = /^- /;
 
-/** Regex to match frontmatter boundaries */
-const FRONTMATTER_REGEX = /^---\s*$/;
+/**
+ * Settings a Moments file may override in its own frontmatter
+ * 
+ * e.g. `moments-timestamp-format: "DD.MM.YYYY HH:mm"`
+ */
+type OverridableSettings = Pick<
+  MomentsSettings,
+  "timestampFormat" | "insertion" | "softDeleteToArchive" | "enterBehavior"
+>;
+
+/** Frontmatter key for each overridable setting */
+export const SETTING_OVERRIDE_KEYS: Record<keyof OverridableSettings, string> = {
+  timestampFormat: "moments-timestamp-format",
+  insertion: "moments-insertion",
+  softDeleteToArchive: "moments-soft-delete-to-archive",
+  enterBehavior: "moments-enter-behavior",
+};
+
+/**
+ * Timestamp formats an entry prefix is parsed with
+ */
+interface ParseFormats {
+  timestampFormat: string;
+  fallbackFormats: string[];
+}
+
+/**
+ * Parse results a body range is parsed into
+ */
+type ParseTarget = Pick<
+  ParsedMomentsDoc,
+  "entries" | "archiveEntries" | "spans" | "errors" | "archiveStartOffset"
+>;
 
 /**
  * Parse a Moments markdown document
  * 
  * @param text - Raw markdown text
  * @param timestampFormat - Format string for parsing timestamps
+ * @param fallbackFormats - Previously used formats, tried when an entry
+ *                          does not match `timestampFormat`
  * @returns Parsed document with entries and spans
  */
 export function parseMomentsDoc(
   text: string,
-  timestampFormat: string = "YYYY-MM-DD HH:mm"
+  timestampFormat: string = "YYYY-MM-DD HH:mm",
+  fallbackFormats: string[] = []
 ): ParsedMomentsDoc {
   const result: ParsedMomentsDoc = {
     frontmatter: {},
@@ -62,51 +112,283 @@ export function parseMomentsDoc(
     archiveStartOffset: -1,
   };
 
-  const lines = text.split("\n");
-  let lineOffset = 0; // Track byte offset in original text
+  // Frontmatter is parsed as real YAML and never re-serialized,
+  // so whatever the user keeps there round-trips untouched
+  const frontmatterInfo = getFrontMatterInfo(text);
+  if (frontmatterInfo.exists) {
+    result.frontmatter = parseFrontmatter(frontmatterInfo.frontmatter, result.errors);
+  }
   
-  let inFrontmatter = false;
-  let frontmatterStarted = false;
-  let frontmatterContent = "";
+  const formats = resolveParseFormats(result.frontmatter, timestampFormat, fallbackFormats);
+  const bodyStart = frontmatterInfo.exists ? frontmatterInfo.contentStart : 0;
   
-  let inArchive = false;
+  parseBody(
+    text,
+    { start: bodyStart, end: text.length, line: countLines(text, bodyStart), inArchive: false },
+    formats,
+    result
+  );
+  
+  return result;
+}
+
+/**
+ * Re-parse a document after it changed, reusing a previous parse
+ * 
+ * Only the entries around the changed region are parsed again; entries
+ * before it are kept and entries after it are kept with shifted offsets.
+ * A change that can affect the whole document (frontmatter, the archive
+ * separator, duplicate ids) falls back to a full parse, so the result is
+ * always the same as `parseMomentsDoc(text, ...)` (except that entries
+ * without a block id keep their generated id).
+ * 
+ * @param previous - Parse of an earlier version of the document
+ * @param text - Current document text
+ * @param timestampFormat - Format string the previous parse used
+ * @param fallbackFormats - Previously used formats the previous parse used
+ * @returns Parsed document with entries and spans
+ */
+export function reparseMomentsDoc(
+  previous: ParsedMomentsDoc,
+  text: string,
+  timestampFormat: string,
+  fallbackFormats: string[] = []
+): ParsedMomentsDoc {
+  const oldText = previous.originalText;
+  if (text === oldText) return previous;
+  
+  const fullParse = () => parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  
+  // Unchanged text at the start and the end
+  const maxCommon = Math.min(text.length, oldText.length);
+  let prefix = 0;
+  while (prefix < maxCommon && text.charCodeAt(prefix) === oldText.charCodeAt(prefix)) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < maxCommon - prefix &&
+    text.charCodeAt(text.length - 1 - suffix) === oldText.charCodeAt(oldText.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+  
+  // The frontmatter may change the formats entries are parsed with, and
+  // with several archive separators the entry lists are not in file order
+  const bodyStart = findFrontmatterEnd(text);
+  if (
+    bodyStart !== findFrontmatterEnd(oldText) ||
+    prefix < bodyStart ||
+    countArchiveSeparators(text) > 1 ||
+    countArchiveSeparators(oldText) > 1
+  ) {
+    return fullParse();
+  }
+  
+  const delta = text.length - oldText.length;
+  const changeEnd = oldText.length - suffix;
+  const ordered = [
+    ...previous.entries.map(entry => ({ entry, archived: false })),
+    ...previous.archiveEntries.map(entry => ({ entry, archived: true })),
+  ];
+  const getSpan = (index: number) => previous.spans.get(ordered[index]?.entry.id ?? "");
+  
+  // Parse again from the entry before the one the change starts in (a
+  // changed list marker joins an entry to the previous one) up to the
+  // first entry starting after the change
+  let startIndex = ordered.findIndex((_, i) => (getSpan(i)?.start ?? 0) >= prefix);
+  startIndex = Math.max((startIndex < 0 ? ordered.length : startIndex) - 2, 0);
+  let endIndex = ordered.findIndex((_, i) => (getSpan(i)?.start ?? 0) > changeEnd);
+  if (endIndex < 0) endIndex = ordered.length;
+  
+  const windowStart = startIndex > 0 ? getSpan(startIndex)?.start : Math.max(bodyStart, 0);
+  const oldWindowEnd = endIndex < ordered.length ? getSpan(endIndex)?.start : oldText.length;
+  if (windowStart === undefined || oldWindowEnd === undefined) {
+    return fullParse();
+  }
+  const windowEnd = endIndex < ordered.length ? oldWindowEnd + delta : text.length;
+  
+  // An entry after the window that duplicates an id would need the whole
+  // id assignment redone
+  const kept = ordered.slice(endIndex);
+  if (kept.some(({ entry }) => entry.duplicateId)) {
+    return fullParse();
+  }
+  
+  const result: ParsedMomentsDoc = {
+    frontmatter: previous.frontmatter,
+    entries: [],
+    archiveEntries: [],
+    errors: [],
+    originalText: text,
+    spans: new Map(),
+    archiveStartOffset: previous.archiveStartOffset < windowStart ? previous.archiveStartOffset : -1,
+  };
+  
+  // Entries and problems before the window stay as they are
+  const windowLine = countLines(text, windowStart);
+  for (const { entry, archived } of ordered.slice(0, startIndex)) {
+    const span = previous.spans.get(entry.id);
+    if (span) result.spans.set(entry.id, span);
+    (archived ? result.archiveEntries : result.entries).push(entry);
+  }
+  result.errors.push(...previous.errors.filter(e => e.line === undefined || e.line < windowLine));
+  
+  const windowEntry = startIndex > 0 ? ordered[startIndex] : undefined;
+  const { inArchive, archiveMonth } = parseBody(
+    text,
+    {
+      start: windowStart,
+      end: windowEnd,
+      line: windowLine,
+      inArchive: windowEntry?.archived ?? false,
+      archiveMonth: windowEntry?.entry.archiveMonth,
+    },
+    resolveParseFormats(previous.frontmatter, timestampFormat, fallbackFormats),
+    result
+  );
+  
+  // The entries after the window must still be read the same way (also
+  // under the same archive month), and an archive separator removed from
+  // the window may leave an earlier one
+  const next = kept[0];
+  if (
+    next &&
+    (next.archived !== inArchive || next.entry.archiveMonth !== archiveMonth || result.spans.has(next.entry.id))
+  ) {
+    return fullParse();
+  }
+  const hadSeparator = previous.archiveStartOffset >= windowStart && previous.archiveStartOffset < oldWindowEnd;
+  if (hadSeparator && result.archiveStartOffset < windowStart) {
+    return fullParse();
+  }
+  
+  // Entries and problems after the window move by the length change
+  const oldWindowEndLine = windowLine + countLines(oldText, oldWindowEnd, windowStart);
+  const lineDelta = countLines(text, windowEnd, windowStart) - countLines(oldText, oldWindowEnd, windowStart);
+  for (const { entry, archived } of kept) {
+    const span = previous.spans.get(entry.id);
+    if (!span || result.spans.has(entry.id)) return fullParse();
+    
+    result.spans.set(entry.id, { id: entry.id, start: span.start + delta, end: span.end + delta });
+    (archived ? result.archiveEntries : result.entries).push(entry);
+  }
+  // A window reaching the end of the text leaves no problems after it (its
+  // last line, without a line break, has the number of the window end)
+  for (const error of kept.length > 0 ? previous.errors : []) {
+    if (error.line !== undefined && error.line >= oldWindowEndLine) {
+      result.errors.push({ ...error, line: error.line + lineDelta });
+    }
+  }
+  if (previous.archiveStartOffset >= oldWindowEnd) {
+    result.archiveStartOffset = previous.archiveStartOffset + delta;
+  }
+  
+  return result;
+}
+
+/**
+ * Get the formats to parse timestamps with, applying a frontmatter override
+ */
+function resolveParseFormats(
+  frontmatter: Record<string, unknown>,
+  timestampFormat: string,
+  fallbackFormats: string[]
+): ParseFormats {
+  // A file may override the timestamp format in its frontmatter
+  const formatOverride = getSettingOverrides(frontmatter).timestampFormat;
+  if (formatOverride && formatOverride !== timestampFormat) {
+    return { timestampFormat: formatOverride, fallbackFormats: [timestampFormat, ...fallbackFormats] };
+  }
+  return { timestampFormat, fallbackFormats };
+}
+
+/**
+ * Count the lines of a text that are an archive separator
+ */
+function countArchiveSeparators(text: string): number {
+  let count = 0;
+  
+  for (let i = text.indexOf(ARCHIVE_SEPARATOR); i >= 0; i = text.indexOf(ARCHIVE_SEPARATOR, i + 1)) {
+    const lineStart = text.lastIndexOf("\n", i) + 1;
+    const lineEnd = text.indexOf("\n", i);
+    const line = text.substring(lineStart, lineEnd < 0 ? text.length : lineEnd);
+    if (line.trim() !== ARCHIVE_SEPARATOR) continue;
+    
+    count++;
+    if (lineEnd < 0) break;
+    i = lineEnd;
+  }
+  
+  return count;
+}
+
+/**
+ * Count the line breaks in a range of text
+ */
+function countLines(text: string, end: number, start = 0): number {
+  let count = 0;
+  for (let i = text.indexOf("\n", start); i >= 0 && i < end; i = text.indexOf("\n", i + 1)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Parse the entries in a range of a document's body
+ * 
+ * The range starts at the beginning of a line outside any entry and ends
+ * at the end of the text or at the start of a list item.
+ * 
+ * @param text - Document text
+ * @param range - Offsets, first line number and archive state (and month) at the start
+ * @param formats - Timestamp formats
+ * @param result - Receives the entries, spans and problems found
+ * @returns Archive state and month at the end of the range
+ */
+function parseBody(
+  text: string,
+  range: { start: number; end: number; line: number; inArchive: boolean; archiveMonth?: string },
+  formats: ParseFormats,
+  result: ParseTarget
+): { inArchive: boolean; archiveMonth?: string } {
+  const lines = text.substring(range.start, range.end).split("\n");
+  if (range.end < text.length) {
+    lines.pop(); // The range ends with a line break before the next entry
+  }
+  let lineOffset = range.start; // Track byte offset in original text
+  
+  let inArchive = range.inArchive;
+  let archiveMonth = range.archiveMonth;
   let currentEntry: {
     lines: string[];
     startOffset: number;
     endOffset: number;
+    startLine: number;
   } | null = null;
+  
+  // Add a finalized entry to the active or archived entries
+  const pushEntry = (entry: MomentEntry | null) => {
+    if (!entry) return;
+    if (inArchive) {
+      if (archiveMonth) entry.archiveMonth = archiveMonth;
+      result.archiveEntries.push(entry);
+    } else {
+      result.entries.push(entry);
+    }
+  };
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i] ?? "";
+    const lineNumber = range.line + i;
     const lineStart = lineOffset;
     const lineEnd = lineOffset + line.length;
     
-    // Track frontmatter
-    if (FRONTMATTER_REGEX.test(line)) {
-      if (!frontmatterStarted) {
-        frontmatterStarted = true;
-        inFrontmatter = true;
-        lineOffset = lineEnd + 1; // +1 for newline
-        continue;
-      } else if (inFrontmatter) {
-        inFrontmatter = false;
-        result.frontmatter = parseFrontmatter(frontmatterContent);
-        lineOffset = lineEnd + 1;
-        continue;
-      }
-    }
-    
-    if (inFrontmatter) {
-      frontmatterContent += (frontmatterContent ? "\n" : "") + line;
-      lineOffset = lineEnd + 1;
-      continue;
-    }
-    
     // Check for archive separator
     if (line.trim() === ARCHIVE_SEPARATOR) {
       // Finalize current entry before archive
       if (currentEntry) {
-        const entry = finalizeEntry(currentEntry, timestampFormat, result.spans, result.errors);
+        const entry = finalizeEntry(currentEntry, formats, result.spans, result.errors);
         if (entry) {
           result.entries.push(entry);
         }
@@ -115,6 +397,7 @@ export function parseMomentsDoc(
       
       result.archiveStartOffset = lineStart;
       inArchive = true;
+      archiveMonth = undefined;
       lineOffset = lineEnd + 1;
       continue;
     }
@@ -125,18 +408,24 @@ export function parseMomentsDoc(
       continue;
     }
     
+    // A month sub-heading ends the entry and files the following ones
+    const monthHeading = inArchive ? ARCHIVE_MONTH_HEADING_REGEX.exec(line.trim()) : null;
+    if (monthHeading) {
+      if (currentEntry) {
+        pushEntry(finalizeEntry(currentEntry, formats, result.spans, result.errors));
+        currentEntry = null;
+      }
+      
+      archiveMonth = monthHeading[1];
+      lineOffset = lineEnd + 1;
+      continue;
+    }
+    
     // Check for list item start
     if (LIST_ITEM_REGEX.test(line)) {
       // Finalize previous entry
       if (currentEntry) {
-        const entry = finalizeEntry(currentEntry, timestampFormat, result.spans, result.errors);
-        if (entry) {
-          if (inArchive) {
-            result.archiveEntries.push(entry);
-          } else {
-            result.entries.push(entry);
-          }
-        }
+        pushEntry(finalizeEntry(currentEntry, formats, result.spans, result.errors));
       }
       
       // Start new entry
@@ -144,24 +433,26 @@ export function parseMomentsDoc(
         lines: [line.substring(2)], // Remove "- " prefix
         startOffset: lineStart,
         endOffset: lineEnd,
+        startLine: lineNumber,
       };
-    } else if (currentEntry) {
+    } else if (currentEntry && (line.startsWith("  ") || line.trim() === "")) {
       // Continuation line (must be indented)
-      if (line.startsWith("  ") || line.trim() === "") {
-        currentEntry.lines.push(line.startsWith("  ") ? line.substring(2) : line);
-        currentEntry.endOffset = lineEnd;
-      } else if (line.trim() !== "") {
-        // Non-indented, non-empty line ends the entry
-        const entry = finalizeEntry(currentEntry, timestampFormat, result.spans, result.errors);
-        if (entry) {
-          if (inArchive) {
-            result.archiveEntries.push(entry);
-          } else {
-            result.entries.push(entry);
-          }
-        }
+      currentEntry.lines.push(line.startsWith("  ") ? line.substring(2) : line);
+      currentEntry.endOffset = lineEnd;
+    } else if (line.trim() !== "") {
+      // Non-indented, non-empty line ends the entry
+      if (currentEntry) {
+        pushEntry(finalizeEntry(currentEntry, formats, result.spans, result.errors));
         currentEntry = null;
       }
+      
+      // Text outside any list item is not shown in the view
+      result.errors.push({
+        kind: "orphan",
+        message: "Line is not part of any entry and is not shown",
+        context: line.substring(0, 50),
+        line: lineNumber,
+      });
     }
     
     lineOffset = lineEnd + 1; // +1 for newline
@@ -169,27 +460,20 @@ export function parseMomentsDoc(
   
   // Finalize last entry
   if (currentEntry) {
-    const entry = finalizeEntry(currentEntry, timestampFormat, result.spans, result.errors);
-    if (entry) {
-      if (inArchive) {
-        result.archiveEntries.push(entry);
-      } else {
-        result.entries.push(entry);
-      }
-    }
+    pushEntry(finalizeEntry(currentEntry, formats, result.spans, result.errors));
   }
   
-  return result;
+  return { inArchive, archiveMonth };
 }
 
 /**
  * Finalize an entry from collected lines
  */
 function finalizeEntry(
-  raw: { lines: string[]; startOffset: number; endOffset: number },
-  timestampFormat: string,
+  raw: { lines: string[]; startOffset: number; endOffset: number; startLine: number },
+  formats: { timestampFormat: string; fallbackFormats: string[] },
   spans: Map<EntryId, EntrySpan>,
-  errors: Array<{ message: string; context?: string }>
+  errors: MomentsParseError[]
 ): MomentEntry | null {
   if (raw.lines.length === 0) return null;
   
@@ -239,13 +523,24 @@ function finalizeEntry(
   }
   rawWithPrefix = stripped.content || rawWithPrefix;
   
-  // Try to extract timestamp from prefix
-  const { timestamp, remainingText } = extractTimestampPrefix(rawWithPrefix, timestampFormat);
+  // Try to extract timestamp from prefix (older formats are accepted too)
+  const { timestamp, remainingText } = extractTimestampPrefixWithFallbacks(
+    rawWithPrefix,
+    formats.timestampFormat,
+    formats.fallbackFormats
+  );
   
   // Also strip block ID from remaining text as safety net
   const strippedRemaining = stripBlockIdFromContent(remainingText || "");
   const cleanRaw = strippedRemaining.content || (remainingText || rawWithPrefix);
   
+  // An id already used by an earlier entry is treated as missing
+  let duplicateId: EntryId | undefined;
+  if (blockId && spans.has(blockId)) {
+    duplicateId = blockId;
+    blockId = null;
+  }
+  
   // Generate block id if missing
   const idMissing = !blockId;
   if (!blockId) {
@@ -257,7 +552,10 @@ function finalizeEntry(
     createdAt: timestamp ?? now(),
     raw: cleanRaw,
     rawWithPrefix,
+    fields: extractInlineFields(cleanRaw).fields,
     idMissing,
+    duplicateId,
+    timestampMissing: timestamp === null,
   };
   
   // Record span
@@ -267,10 +565,31 @@ function finalizeEntry(
     end: raw.endOffset,
   });
   
-  if (idMissing) {
+  if (duplicateId) {
     errors.push({
+      kind: "duplicateId",
+      message: `Duplicate block id ${duplicateId}, assigned: ${blockId}`,
+      context: rawWithPrefix.substring(0, 50),
+      line: raw.startLine,
+      entryId: blockId,
+    });
+  } else if (idMissing) {
+    errors.push({
+      kind: "missingId",
       message: `Entry missing block id, assigned: ${blockId}`,
       context: rawWithPrefix.substring(0, 50),
+      line: raw.startLine,
+      entryId: blockId,
+    });
+  }
+  
+  if (timestamp === null) {
+    errors.push({
+      kind: "timestamp",
+      message: `Entry has no timestamp matching "${formats.timestampFormat}"`,
+      context: rawWithPrefix.substring(0, 50),
+      line: raw.startLine,
+      entryId: blockId,
     });
   }
   
@@ -278,27 +597,86 @@ function finalizeEntry(
 }
 
 /**
- * Parse YAML-like frontmatter (simple key: value pairs)
+ * Parse YAML frontmatter into a plain object
  */
-function parseFrontmatter(content: string): Record<string, unknown> {
-  const result: Record<string, unknown> = {};
+function parseFrontmatter(
+  content: string,
+  errors: MomentsParseError[]
+): Record<string, unknown> {
+  if (!content.trim()) return {};
   
-  for (const line of content.split("\n")) {
-    const colonIndex = line.indexOf(":");
-    if (colonIndex > 0) {
-      const key = line.substring(0, colonIndex).trim();
-      let value: unknown = line.substring(colonIndex + 1).trim();
-      
-      // Basic type coercion
-      if (value === "true") value = true;
-      else if (value === "false") value = false;
-      else if (typeof value === "string" && /^\d+$/.test(value)) value = parseInt(value, 10);
-      
-      result[key] = value;
-    }
+  try {
+    const data: unknown = parseYaml(content);
+    return data && typeof data === "object" ? data as Record<string, unknown> : {};
+  } catch (e) {
+    errors.push({
+      kind: "frontmatter",
+      message: `Invalid frontmatter: ${e instanceof Error ? e.message : String(e)}`,
+      context: content.substring(0, 50),
+      line: 0,
+    });
+    return {};
+  }
+}
+
+/**
+ * Read just the frontmatter of a Moments document
+ */
+export function parseMomentsFrontmatter(text: string): Record<string, unknown> {
+  const info = getFrontMatterInfo(text);
+  return info.exists ? parseFrontmatter(info.frontmatter, []) : {};
+}
+
+/**
+ * Read the valid setting overrides from a Moments file's frontmatter
+ * 
+ * Values of the wrong type or outside the allowed options are ignored.
+ */
+export function getSettingOverrides(
+  frontmatter: Record<string, unknown> | null | undefined
+): Partial<OverridableSettings> {
+  const overrides: Partial<OverridableSettings> = {};
+  if (!frontmatter) return overrides;
+  
+  const timestampFormat = frontmatter[SETTING_OVERRIDE_KEYS.timestampFormat];
+  if (typeof timestampFormat === "string" && timestampFormat.trim()) {
+    overrides.timestampFormat = timestampFormat;
   }
   
-  return result;
+  const insertion = frontmatter[SETTING_OVERRIDE_KEYS.insertion];
+  if (insertion === "prepend" || insertion === "append") {
+    overrides.insertion = insertion;
+  }
+  
+  const softDelete = frontmatter[SETTING_OVERRIDE_KEYS.softDeleteToArchive];
+  if (typeof softDelete === "boolean") {
+    overrides.softDeleteToArchive = softDelete;
+  }
+  
+  const enterBehavior = frontmatter[SETTING_OVERRIDE_KEYS.enterBehavior];
+  if (enterBehavior === "enterToSave" || enterBehavior === "shiftEnterToSave") {
+    overrides.enterBehavior = enterBehavior;
+  }
+  
+  return overrides;
+}
+
+/**
+ * Apply a Moments file's frontmatter overrides on top of the plugin settings
+ */
+export function resolveFileSettings(
+  settings: MomentsSettings,
+  frontmatter: Record<string, unknown> | null | undefined
+): MomentsSettings {
+  const overrides = getSettingOverrides(frontmatter);
+  const resolved = { ...settings, ...overrides };
+  
+  // Entries written with the plugin-wide format stay readable
+  if (overrides.timestampFormat && overrides.timestampFormat !== settings.timestampFormat) {
+    resolved.timestampFormatHistory = [settings.timestampFormat, ...settings.timestampFormatHistory];
+  }
+  
+  return resolved;
 }
 
 /**
@@ -307,15 +685,17 @@ function parseFrontmatter(content: string): Record<string, unknown> {
  * @param content - The entry content
  * @param timestampFormat - Format for the timestamp prefix
  * @param blockId - Optional specific block id (generates one if not provided)
+ * @param createdAt - Creation time in epoch milliseconds (defaults to now)
  * @returns Formatted entry block string (without leading "- ")
  */
 export function createEntryBlock(
   content: string,
   timestampFormat: string,
-  blockId?: string
+  blockId?: string,
+  createdAt: number = now()
 ): string {
   const id = blockId ?? generateBlockId();
-  const timestamp = formatTimestamp(now(), timestampFormat);
+  const timestamp = formatTimestamp(createdAt, timestampFormat);
   
   // Build entry with timestamp prefix
   const lines = content.split("\n");
@@ -347,23 +727,36 @@ export function createBasicFrontmatter(): string {
 /**
  * Insert a new entry into the document text
  * 
+ * A backdated entry (one with a creation time given) goes to its
+ * chronological position among the active entries instead.
+ * 
  * @param text - Current document text
  * @param entryContent - The entry content (without list marker or block id)
  * @param position - Where to insert: "prepend" or "append"
  * @param timestampFormat - Format for timestamp
+ * @param blockId - Optional specific block id (generates one if not provided)
+ * @param parsed - Parse of `text`, if already available
+ * @param createdAt - Creation time of a backdated entry
  * @returns Updated document text
  */
 export function insertEntry(
   text: string,
   entryContent: string,
   position: "prepend" | "append",
-  timestampFormat: string
+  timestampFormat: string,
+  blockId?: string,
+  parsed?: ParsedMomentsDoc,
+  createdAt?: number
 ): string {
-  const entryBlock = createEntryBlock(entryContent, timestampFormat);
+  const entryBlock = createEntryBlock(entryContent, timestampFormat, blockId, createdAt);
   const formattedEntry = formatEntryAsListItem(entryBlock);
   
-  // Find insertion point
-  const parsed = parseMomentsDoc(text, timestampFormat);
+  if (createdAt !== undefined) {
+    const doc = parsed ?? parseMomentsDoc(text, timestampFormat);
+    const newestFirst = isNewestFirst(doc.entries, position);
+    const index = findChronologicalIndex(doc.entries, createdAt, newestFirst);
+    return insertEntryBlock(text, doc, formattedEntry, getInsertionPosition(doc.entries, index));
+  }
   
   if (position === "prepend") {
     // Insert after frontmatter
@@ -386,9 +779,10 @@ export function insertEntry(
     );
   } else {
     // Append before archive (if exists) or at end
-    if (parsed.archiveStartOffset >= 0) {
-      const before = text.substring(0, parsed.archiveStartOffset);
-      const after = text.substring(parsed.archiveStartOffset);
+    const { archiveStartOffset } = parsed ?? parseMomentsDoc(text, timestampFormat);
+    if (archiveStartOffset >= 0) {
+      const before = text.substring(0, archiveStartOffset);
+      const after = text.substring(archiveStartOffset);
       
       return before.trimEnd() + "\n\n" + formattedEntry + "\n\n" + after;
     } else {
@@ -405,6 +799,9 @@ export function insertEntry(
  * @param newContent - New content (without list marker or block id)
  * @param timestampFormat - Format for timestamp
  * @param keepOriginalTimestamp - Whether to preserve the original timestamp
+ * @param fallbackFormats - Previously used formats to read the original timestamp with
+ * @param parsed - Parse of `text`, if already available
+ * @param createdAt - New timestamp to write instead of the original one
  * @returns Updated document text
  */
 export function replaceEntrySpan(
@@ -412,18 +809,23 @@ export function replaceEntrySpan(
   span: EntrySpan,
   newContent: string,
   timestampFormat: string,
-  keepOriginalTimestamp: boolean = true
+  keepOriginalTimestamp: boolean = true,
+  fallbackFormats: string[] = [],
+  parsed: ParsedMomentsDoc = parseMomentsDoc(text, timestampFormat, fallbackFormats),
+  createdAt?: number
 ): string {
-  // Re-parse to get current entry data
-  const parsed = parseMomentsDoc(text, timestampFormat);
   const existingEntry = parsed.entries.find(e => e.id === span.id) 
     ?? parsed.archiveEntries.find(e => e.id === span.id);
   
   let entryBlock: string;
   
-  if (keepOriginalTimestamp && existingEntry) {
-    // Preserve original timestamp
-    const timestamp = formatTimestamp(existingEntry.createdAt, timestampFormat);
+  if (createdAt === undefined && keepOriginalTimestamp && existingEntry?.timestampMissing) {
+    // An entry without a readable timestamp stays without one (its
+    // createdAt is only a guess)
+    entryBlock = [...newContent.split("\n"), `^${span.id}`].join("\n");
+  } else if (createdAt !== undefined || (keepOriginalTimestamp && existingEntry)) {
+    // Preserve original timestamp (or write the new one)
+    const timestamp = formatTimestamp(createdAt ?? existingEntry?.createdAt ?? Date.now(), timestampFormat);
     const lines = newContent.split("\n");
     const firstLine = lines[0] ?? "";
     const formattedLines = [`${timestamp} ${firstLine}`, ...lines.slice(1), `^${span.id}`];
@@ -456,7 +858,7 @@ export function deleteEntrySpan(text: string, span: EntrySpan): string {
     after = after.substring(1);
   }
   
-  return before + after;
+  return tidyArchiveMonths(before + after);
 }
 
 /**
@@ -465,14 +867,17 @@ export function deleteEntrySpan(text: string, span: EntrySpan): string {
  * @param text - Current document text
  * @param span - The entry's span to archive
  * @param timestampFormat - Timestamp format
+ * @param parsed - Parse of `text`, if already available
+ * @param byMonth - File the entry under the sub-heading of the month it was created in
  * @returns Updated document text
  */
 export function moveToArchive(
   text: string,
   span: EntrySpan,
-  timestampFormat: string
+  timestampFormat: string,
+  parsed: ParsedMomentsDoc = parseMomentsDoc(text, timestampFormat),
+  byMonth = false
 ): string {
-  const parsed = parseMomentsDoc(text, timestampFormat);
   const entry = parsed.entries.find(e => e.id === span.id);
   
   if (!entry) {
@@ -483,19 +888,583 @@ export function moveToArchive(
   const entryBlock = text.substring(span.start, span.end + 1);
   
   // Remove from current position
-  let newText = deleteEntrySpan(text, span);
+  const newText = deleteEntrySpan(text, span);
+  
+  return appendToArchive(
+    newText,
+    entryBlock,
+    parsed.archiveStartOffset >= 0,
+    byMonth ? getArchiveMonth(entry.createdAt) : undefined
+  );
+}
+
+/**
+ * Move several entries to the archive section in one pass
+ * 
+ * Gives the same text as moving them one by one in file order, without
+ * rewriting the whole text for every entry.
+ * 
+ * @param text - Current document text
+ * @param ids - Entries to archive (entries not active are skipped)
+ * @param timestampFormat - Timestamp format
+ * @param parsed - Parse of `text`, if already available
+ * @param byMonth - File the entries under the sub-heading of the month they were created in
+ * @returns Updated document text
+ */
+export function moveEntriesToArchive(
+  text: string,
+  ids: EntryId[],
+  timestampFormat: string,
+  parsed: ParsedMomentsDoc = parseMomentsDoc(text, timestampFormat),
+  byMonth = false
+): string {
+  const spans = getEntrySpans(parsed, parsed.entries, ids);
+  if (spans.length === 0) return text;
+  
+  // Blocks in file order, grouped by the sub-heading they go under ("" = none)
+  const createdAtById = new Map(parsed.entries.map(e => [e.id, e.createdAt]));
+  const groups: Map<string, string[]> = new Map();
+  for (const span of spans) {
+    const month = byMonth ? getArchiveMonth(createdAtById.get(span.id) ?? 0) : "";
+    groups.set(month, [...groups.get(month) ?? [], text.substring(span.start, span.end + 1).trimEnd()]);
+  }
+  
+  let newText = deleteEntrySpans(text, spans);
+  let hasArchive = parsed.archiveStartOffset >= 0;
+  for (const [month, blocks] of groups) {
+    newText = appendToArchive(newText, blocks.join("\n"), hasArchive, month || undefined);
+    hasArchive = true;
+  }
+  
+  return newText;
+}
+
+/**
+ * Move archived entries back among the active entries
+ * 
+ * Every entry goes to its chronological position: between the active
+ * entries created right before and right after it, in the file's own order.
+ * 
+ * @param text - Current document text
+ * @param ids - Entries to restore (entries not archived are skipped)
+ * @param insertion - Order assumed when the file has too few entries to tell
+ * @param timestampFormat - Timestamp format
+ * @param parsed - Parse of `text`, if already available
+ * @returns Updated document text
+ */
+export function moveEntriesFromArchive(
+  text: string,
+  ids: EntryId[],
+  insertion: "prepend" | "append",
+  timestampFormat: string,
+  parsed: ParsedMomentsDoc = parseMomentsDoc(text, timestampFormat)
+): string {
+  const spans = getEntrySpans(parsed, parsed.archiveEntries, ids);
+  if (spans.length === 0) return text;
+  
+  const entries = parsed.entries;
+  const newestFirst = isNewestFirst(entries, insertion);
+  
+  // Group the entries by the active entry they go before (entries.length = at the end)
+  const createdAtById = new Map(parsed.archiveEntries.map(e => [e.id, e.createdAt]));
+  const groups: Map<number, Array<{ createdAt: number; block: string }>> = new Map();
+  for (const span of spans) {
+    const createdAt = createdAtById.get(span.id) ?? 0;
+    const position = findChronologicalIndex(entries, createdAt, newestFirst);
+    groups.set(position, [
+      ...groups.get(position) ?? [],
+      { createdAt, block: getEntryBlockText(text, span).trimEnd() },
+    ]);
+  }
+  
+  // The archive follows the active entries, so their spans stay valid;
+  // inserting from the bottom up keeps the offsets above valid too
+  let newText = deleteEntrySpans(text, spans);
+  for (const position of [...groups.keys()].sort((a, b) => b - a)) {
+    const block = (groups.get(position) ?? [])
+      .sort((a, b) => (a.createdAt - b.createdAt) * (newestFirst ? -1 : 1))
+      .map(item => item.block)
+      .join("\n\n");
+    newText = insertEntryBlock(newText, parsed, block, getInsertionPosition(entries, position));
+  }
+  
+  return newText;
+}
+
+/**
+ * Move an active entry to its chronological position (e.g. after its
+ * timestamp changed); an entry already in order stays where it is
+ * 
+ * @param text - Current document text
+ * @param id - Entry to move
+ * @param insertion - Order assumed when the file has too few entries to tell
+ * @param timestampFormat - Timestamp format
+ * @param parsed - Parse of `text`, if already available
+ * @returns Updated document text
+ */
+export function moveEntryToChronologicalPosition(
+  text: string,
+  id: EntryId,
+  insertion: "prepend" | "append",
+  timestampFormat: string,
+  parsed: ParsedMomentsDoc = parseMomentsDoc(text, timestampFormat)
+): string {
+  const currentIndex = parsed.entries.findIndex(e => e.id === id);
+  const entry = parsed.entries[currentIndex];
+  const span = parsed.spans.get(id);
+  if (!entry || !span) return text;
+  
+  // Position among the other entries
+  const others = parsed.entries.filter(e => e.id !== id);
+  const index = findChronologicalIndex(others, entry.createdAt, isNewestFirst(others, insertion));
+  if (index === currentIndex) return text;
+  
+  // Re-parsing only the changed region keeps the ids generated for entries without a block id
+  const block = getEntryBlockText(text, span).trimEnd();
+  const newText = deleteEntrySpan(text, span);
+  const newParsed = reparseMomentsDoc(parsed, newText, timestampFormat);
+  return insertEntryBlock(newText, newParsed, block, getInsertionPosition(others, index));
+}
+
+/**
+ * Tell whether entries run newest first
+ * 
+ * @param insertion - Order assumed when there are too few entries to tell
+ */
+function isNewestFirst(entries: MomentEntry[], insertion: "prepend" | "append"): boolean {
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  return first && last && first !== last
+    ? first.createdAt >= last.createdAt
+    : insertion === "prepend";
+}
+
+/**
+ * Find the index among time-ordered entries an entry created at a time goes to
+ * (entries.length = after the last one)
+ */
+function findChronologicalIndex(entries: MomentEntry[], createdAt: number, newestFirst: boolean): number {
+  const index = entries.findIndex(e => newestFirst ? e.createdAt < createdAt : e.createdAt > createdAt);
+  return index < 0 ? entries.length : index;
+}
+
+/**
+ * Describe an index among the entries as an insertion position
+ */
+function getInsertionPosition(
+  entries: MomentEntry[],
+  index: number
+): Pick<DeletedEntryInfo, "insertionHint" | "afterId" | "beforeId"> {
+  return {
+    insertionHint: index < entries.length ? "prepend" : "append",
+    afterId: index > 0 ? entries[index - 1]?.id : undefined,
+    beforeId: entries[index]?.id,
+  };
+}
+
+/**
+ * Get the spans of the listed entries among the given ones, in file order
+ */
+function getEntrySpans(parsed: ParsedMomentsDoc, entries: MomentEntry[], ids: EntryId[]): EntrySpan[] {
+  const wanted = new Set(ids);
+  const spans: EntrySpan[] = [];
+  
+  for (const entry of entries) {
+    const span = parsed.spans.get(entry.id);
+    if (span && wanted.has(entry.id)) spans.push(span);
+  }
+  
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Delete several entries in one pass (same cleanup as deleteEntrySpan)
+ * 
+ * @param text - Current document text
+ * @param spans - Spans to delete, in file order
+ * @returns Updated document text
+ */
+export function deleteEntrySpans(text: string, spans: EntrySpan[]): string {
+  const pieces: string[] = [];
+  let position = 0;
+  // Last two characters written, for the blank line cleanup
+  let tail = "";
+  
+  for (const span of spans) {
+    const piece = text.substring(position, span.start);
+    pieces.push(piece);
+    tail = (tail + piece).slice(-2);
+    
+    position = span.end + 1; // +1 to include newline
+    if (tail === "\n\n" && text[position] === "\n") {
+      position++;
+    }
+  }
+  pieces.push(text.substring(position));
+  
+  return tidyArchiveMonths(pieces.join(""));
+}
+
+/**
+ * Append an entry block to the end of the archive section
+ * 
+ * With a month, the block goes to the end of that month's sub-heading.
+ * A missing sub-heading is added before the first older month, so the
+ * months run newest first.
+ * 
+ * @param text - Current document text
+ * @param entryBlock - Entry block including its list marker
+ * @param hasArchive - Whether the text already has an archive section
+ * @param month - Month sub-heading to file the block under ("YYYY-MM")
+ * @returns Updated document text
+ */
+export function appendToArchive(
+  text: string,
+  entryBlock: string,
+  hasArchive: boolean,
+  month?: string
+): string {
+  let newText = text;
   
   // Add archive section if it doesn't exist
-  if (parsed.archiveStartOffset < 0) {
+  if (!hasArchive) {
     newText = newText.trimEnd() + `\n\n${ARCHIVE_SEPARATOR}\n${ARCHIVE_HEADING}\n\n`;
   }
   
   // Append to archive
-  newText = newText.trimEnd() + "\n" + entryBlock + "\n";
+  if (!month) {
+    return newText.trimEnd() + "\n" + entryBlock + "\n";
+  }
+  
+  const block = entryBlock.trimEnd();
+  const headings = findArchiveMonthHeadings(newText);
+  const index = headings.findIndex(h => h.month === month);
+  
+  if (index >= 0) {
+    // End of the month's section: the next sub-heading or the end of the text
+    const end = headings[index + 1]?.offset ?? newText.length;
+    const before = newText.substring(0, end).trimEnd();
+    const after = newText.substring(end);
+    const separator = before.endsWith(`### ${month}`) ? "\n\n" : "\n";
+    return before + separator + block + "\n" + (after ? "\n" + after : "");
+  }
+  
+  const offset = headings.find(h => h.month < month)?.offset ?? newText.length;
+  const before = newText.substring(0, offset).trimEnd();
+  const after = newText.substring(offset);
+  return before + `\n\n### ${month}\n\n` + block + "\n" + (after ? "\n" + after : "");
+}
+
+/**
+ * Get the month sub-heading an entry created at a time is filed under
+ */
+export function getArchiveMonth(createdAt: number): string {
+  return formatTimestamp(createdAt, ARCHIVE_MONTH_FORMAT);
+}
+
+/**
+ * Tidy the month sub-headings of the archive after entries were removed
+ * 
+ * Sub-headings left without any content are removed, and the others keep
+ * a blank line above them (it belongs to the span of the entry before).
+ */
+function tidyArchiveMonths(text: string): string {
+  const headings = findArchiveMonthHeadings(text);
+  let newText = text;
+  
+  // Last to first, so the offsets of the earlier ones stay valid
+  for (let i = headings.length - 1; i >= 0; i--) {
+    const offset = headings[i]?.offset ?? 0;
+    const end = headings[i + 1]?.offset ?? text.length;
+    const isEmpty = text.substring(offset, end).split("\n").slice(1).every(line => !line.trim());
+    
+    if (!isEmpty) {
+      if (!newText.substring(0, offset).endsWith("\n\n")) {
+        newText = newText.substring(0, offset) + "\n" + newText.substring(offset);
+      }
+    } else if (end < newText.length) {
+      newText = newText.substring(0, offset) + newText.substring(end);
+    } else {
+      // Last section: the blank lines above it go along
+      newText = newText.substring(0, offset).trimEnd() + "\n";
+    }
+  }
   
   return newText;
 }
 
+/**
+ * Find the month sub-headings of the archive section, in file order
+ */
+function findArchiveMonthHeadings(text: string): Array<{ month: string; offset: number }> {
+  const headings: Array<{ month: string; offset: number }> = [];
+  let inArchive = false;
+  let offset = 0;
+  
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed === ARCHIVE_SEPARATOR) {
+      inArchive = true;
+    } else if (inArchive) {
+      const month = ARCHIVE_MONTH_HEADING_REGEX.exec(trimmed)?.[1];
+      if (month) headings.push({ month, offset });
+    }
+    offset += line.length + 1;
+  }
+  
+  return headings;
+}
+
+/**
+ * Result of rewriting timestamp prefixes to the current format
+ */
+export interface TimestampMigration {
+  /** Updated document text */
+  text: string;
+  /** Entries whose prefix was rewritten */
+  changed: MomentEntry[];
+  /** Entries whose prefix matches none of the known formats */
+  unparseable: MomentEntry[];
+}
+
+/**
+ * Rewrite every entry's timestamp prefix to the document's current format
+ * 
+ * Entries already in the current format and entries without a parseable
+ * timestamp are left untouched; the latter are reported in `unparseable`.
+ * 
+ * @param text - Current document text
+ * @param timestampFormat - Target format (a frontmatter override still wins)
+ * @param fallbackFormats - Previously used formats to read old prefixes with
+ */
+export function migrateTimestampPrefixes(
+  text: string,
+  timestampFormat: string,
+  fallbackFormats: string[]
+): TimestampMigration {
+  const parsed = parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  const targetFormat = getSettingOverrides(parsed.frontmatter).timestampFormat ?? timestampFormat;
+  const allFallbacks = [timestampFormat, ...fallbackFormats];
+  
+  const changed: MomentEntry[] = [];
+  const unparseable: MomentEntry[] = [];
+  const edits: Array<{ start: number; end: number; replacement: string }> = [];
+  
+  for (const entry of [...parsed.entries, ...parsed.archiveEntries]) {
+    const span = parsed.spans.get(entry.id);
+    if (!span) continue;
+    
+    if (entry.timestampMissing) {
+      unparseable.push(entry);
+      continue;
+    }
+    
+    // The prefix follows the "- " list marker on the entry's first line
+    const lineEnd = text.indexOf("\n", span.start);
+    const firstLine = text.substring(span.start + 2, lineEnd < 0 ? text.length : lineEnd);
+    const { timestamp, prefixLength, format } = extractTimestampPrefixWithFallbacks(
+      firstLine,
+      targetFormat,
+      allFallbacks
+    );
+    if (timestamp === null || format === targetFormat) continue;
+    
+    edits.push({
+      start: span.start + 2,
+      end: span.start + 2 + prefixLength,
+      replacement: formatTimestamp(timestamp, targetFormat),
+    });
+    changed.push(entry);
+  }
+  
+  // Apply from the end so earlier offsets stay valid
+  let newText = text;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    newText = newText.substring(0, edit.start) + edit.replacement + newText.substring(edit.end);
+  }
+  
+  return { text: newText, changed, unparseable };
+}
+
+/**
+ * Write the generated ids of entries missing a (unique) block id back to the text
+ * 
+ * Missing ids get their own `^m-` line; a duplicated id is renamed in place,
+ * so the first entry carrying it keeps it. Ids also used in another file
+ * of a rotating stream are renamed in place as given.
+ * 
+ * @param text - Current document text
+ * @param timestampFormat - Format string for parsing timestamps
+ * @param fallbackFormats - Previously used timestamp formats
+ * @param renames - New id for block ids used in another file, by block id
+ * @returns Updated document text, the repaired entries (with the ids
+ *          written) and the renamed entries (as parsed) with their new id
+ */
+export function repairBlockIds(
+  text: string,
+  timestampFormat: string,
+  fallbackFormats: string[] = [],
+  renames: Map<EntryId, EntryId> = new Map()
+): { text: string; repaired: MomentEntry[]; renamed: Array<{ entry: MomentEntry; id: EntryId }> } {
+  const parsed = parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  const repaired: MomentEntry[] = [];
+  const renamed: Array<{ entry: MomentEntry; id: EntryId }> = [];
+  const edits: Array<{ start: number; end: number; replacement: string }> = [];
+  
+  for (const entry of [...parsed.entries, ...parsed.archiveEntries]) {
+    const span = parsed.spans.get(entry.id);
+    if (!span) continue;
+    
+    const block = text.substring(span.start, span.end);
+    const newId = renames.get(entry.id);
+    if (!entry.idMissing && newId) {
+      const index = block.lastIndexOf(`^${entry.id}`);
+      if (index < 0) continue;
+      const start = span.start + index;
+      edits.push({ start, end: start + entry.id.length + 1, replacement: `^${newId}` });
+      renamed.push({ entry, id: newId });
+      continue;
+    }
+    if (!entry.idMissing) continue;
+    
+    const duplicateIndex = entry.duplicateId ? block.lastIndexOf(`^${entry.duplicateId}`) : -1;
+    
+    if (entry.duplicateId && duplicateIndex >= 0) {
+      const start = span.start + duplicateIndex;
+      edits.push({ start, end: start + entry.duplicateId.length + 1, replacement: `^${entry.id}` });
+    } else {
+      // Trailing blank lines belong to the span; the id goes right after the content
+      const contentEnd = span.start + block.trimEnd().length;
+      edits.push({ start: contentEnd, end: contentEnd, replacement: `\n  ^${entry.id}` });
+    }
+    repaired.push(entry);
+  }
+  
+  // Apply from the end so earlier offsets stay valid
+  let newText = text;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    newText = newText.substring(0, edit.start) + edit.replacement + newText.substring(edit.end);
+  }
+  
+  return { text: newText, repaired, renamed };
+}
+
+/**
+ * Put a deleted entry back where it was
+ * 
+ * The entry goes right after its previous neighbour, or right before its
+ * next neighbour when the previous one is gone, or else at the top or
+ * bottom of the active entries following the insertion hint. A copy left
+ * in the archive by soft delete is removed. An entry deleted from the
+ * archive goes back to the end of the archive.
+ * 
+ * @param text - Current document text
+ * @param deleted - Info recorded when the entry was deleted
+ * @param timestampFormat - Format string for parsing timestamps
+ * @param fallbackFormats - Previously used timestamp formats
+ * @returns Updated document text (unchanged if the entry is already back)
+ */
+export function restoreEntryBlock(
+  text: string,
+  deleted: DeletedEntryInfo,
+  timestampFormat: string,
+  fallbackFormats: string[] = []
+): string {
+  let parsed = parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  if (deleted.fromArchive) {
+    return parsed.spans.has(deleted.id)
+      ? text
+      : appendToArchive(text, deleted.entryBlock.trimEnd(), parsed.archiveStartOffset >= 0, deleted.archiveMonth);
+  }
+  if (parsed.entries.some(e => e.id === deleted.id)) {
+    return text;
+  }
+  
+  // Drop the soft-deleted copy from the archive
+  const archivedSpan = parsed.spans.get(deleted.id);
+  if (archivedSpan) {
+    text = deleteEntrySpan(text, archivedSpan);
+    parsed = parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  }
+  
+  return insertEntryBlock(text, parsed, deleted.entryBlock, deleted);
+}
+
+/**
+ * Insert an entry block among the active entries next to its neighbours
+ * 
+ * The block goes right after `afterId`, or right before `beforeId` when
+ * that one is gone, or else at the top or bottom of the active entries
+ * following the insertion hint.
+ * 
+ * @param text - Current document text
+ * @param parsed - Parse of `text`
+ * @param entryBlock - Entry block including its list marker
+ * @param position - Neighbours and fallback position
+ * @returns Updated document text
+ */
+export function insertEntryBlock(
+  text: string,
+  parsed: ParsedMomentsDoc,
+  entryBlock: string,
+  position: Pick<DeletedEntryInfo, "insertionHint" | "afterId" | "beforeId">
+): string {
+  const block = entryBlock.trimEnd();
+  const afterSpan = position.afterId ? getActiveSpan(parsed, position.afterId) : undefined;
+  const beforeSpan = position.beforeId ? getActiveSpan(parsed, position.beforeId) : undefined;
+  const firstEntry = parsed.entries[0];
+  
+  let offset: number;
+  if (afterSpan) {
+    // Right after the neighbour's content (its span includes trailing blank lines)
+    offset = afterSpan.start + text.substring(afterSpan.start, afterSpan.end).trimEnd().length;
+  } else if (beforeSpan) {
+    offset = beforeSpan.start;
+  } else if (position.insertionHint !== "append" && firstEntry) {
+    offset = parsed.spans.get(firstEntry.id)?.start ?? 0;
+  } else if (position.insertionHint !== "append") {
+    offset = Math.max(findFrontmatterEnd(text), 0);
+  } else {
+    offset = parsed.archiveStartOffset >= 0 ? parsed.archiveStartOffset : text.length;
+  }
+  
+  return insertBlockAt(text, offset, block);
+}
+
+/**
+ * Get the span of an active (not archived) entry
+ */
+function getActiveSpan(parsed: ParsedMomentsDoc, id: EntryId): EntrySpan | undefined {
+  return parsed.entries.some(e => e.id === id) ? parsed.spans.get(id) : undefined;
+}
+
+/**
+ * Insert a list item block at an offset, separated by blank lines
+ */
+function insertBlockAt(text: string, offset: number, block: string): string {
+  const before = text.substring(0, offset);
+  // Trailing whitespace at the end of the file collapses into one newline
+  const after = text.substring(offset).trim() ? text.substring(offset) : "";
+  
+  let separatorBefore = "\n\n";
+  if (before.length === 0 || before.endsWith("\n\n")) {
+    separatorBefore = "";
+  } else if (before.endsWith("\n")) {
+    separatorBefore = "\n";
+  }
+  
+  let separatorAfter = "\n\n";
+  if (after.length === 0) {
+    separatorAfter = "\n";
+  } else if (after.startsWith("\n\n")) {
+    separatorAfter = "";
+  } else if (after.startsWith("\n")) {
+    separatorAfter = "\n";
+  }
+  
+  return before + separatorBefore + block + separatorAfter + after;
+}
+
 /**
  * Format an entry block as a list item with proper indentation
  */
@@ -514,22 +1483,44 @@ function formatEntryAsListItem(entryBlock: string): string {
  * Find the end offset of frontmatter in text
  */
 function findFrontmatterEnd(text: string): number {
-  const lines = text.split("\n");
-  let inFrontmatter = false;
-  let offset = 0;
+  const info = getFrontMatterInfo(text);
+  return info.exists ? info.contentStart : -1;
+}
+
+/**
+ * Get the text of a document that belongs to no entry
+ * 
+ * Everything between the frontmatter and the end of the file that is not
+ * inside an entry's span, without blank lines and archive markers and
+ * month sub-headings (which writes add and remove as needed). Used to check that a write left such
+ * text alone.
+ * 
+ * @param text - Document text
+ * @param parsed - Parse of `text`
+ * @returns The remaining lines, trimmed and joined
+ */
+export function getTextOutsideEntries(text: string, parsed: ParsedMomentsDoc): string {
+  const spans = [...parsed.spans.values()].sort((a, b) => a.start - b.start);
+  const parts: string[] = [];
+  let offset = Math.max(findFrontmatterEnd(text), 0);
   
-  for (const line of lines) {
-    if (FRONTMATTER_REGEX.test(line)) {
-      if (!inFrontmatter) {
-        inFrontmatter = true;
-      } else {
-        return offset + line.length + 1; // Include the closing ---
-      }
-    }
-    offset += line.length + 1;
+  for (const span of spans) {
+    parts.push(text.substring(offset, span.start));
+    offset = Math.max(offset, span.end + 1);
   }
+  parts.push(text.substring(offset));
   
-  return -1;
+  return parts
+    .join("\n")
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line =>
+      line &&
+      line !== ARCHIVE_SEPARATOR &&
+      line !== ARCHIVE_HEADING &&
+      !ARCHIVE_MONTH_HEADING_REGEX.test(line)
+    )
+    .join("\n");
 }
 
 /**
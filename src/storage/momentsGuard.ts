@@ -0,0 +1,139 @@
+/**
+ * Moments Guard - Write Safety Check
+ *
+ * Before new content is written to a Moments file, it is parsed again and
+ * compared with the current content. A write may only change the entries
+ * it means to change; the frontmatter, text outside the entries and every
+ * other entry must come out byte-identical. A write that breaks this
+ * (e.g. through a bug in a format function) is refused instead of losing
+ * data.
+ */
+
+import { getFrontMatterInfo } from "obsidian";
+import type { EntryId, MomentEntry, ParsedMomentsDoc } from "../types";
+import { getTextOutsideEntries } from "./momentsFormat";
+import { indexEntries, sameState } from "./momentsEntries";
+
+/**
+ * Entry changes a write is meant to make
+ *
+ * Entries are taken from a parse of the text the write starts from, so
+ * an entry without a block id is recognized by its text.
+ */
+export interface WriteIntent {
+  /** Ids of new entries */
+  added?: EntryId[];
+  /** Entries that are removed */
+  removed?: MomentEntry[];
+  /** Entries whose content, position or archive state changes */
+  changed?: MomentEntry[];
+}
+
+/**
+ * Check that a write only makes the intended entry changes
+ *
+ * @param beforeParsed - Parse of the text the write starts from
+ * @param afterParsed - Parse of the text about to be written
+ * @param intent - Entry changes the write is meant to make
+ * @returns Description of the first unintended change, or null if there is none
+ */
+export function verifyWrite(
+  beforeParsed: ParsedMomentsDoc,
+  afterParsed: ParsedMomentsDoc,
+  intent: WriteIntent
+): string | null {
+  const before = beforeParsed.originalText;
+  const after = afterParsed.originalText;
+
+  if (getFrontmatterBlock(before) !== getFrontmatterBlock(after)) {
+    return "the frontmatter would change";
+  }
+  if (getTextOutsideEntries(before, beforeParsed) !== getTextOutsideEntries(after, afterParsed)) {
+    return "text outside the moments would change";
+  }
+
+  const beforeEntries = indexEntries(before, beforeParsed);
+  const afterEntries = indexEntries(after, afterParsed);
+
+  // Ids allowed to differ, and how many entries without an id may appear
+  const intended: Set<EntryId> = new Set();
+  let newUnidentified = 0;
+
+  for (const id of intent.added ?? []) {
+    if (beforeEntries.identified.has(id)) return `${id} would be added twice`;
+    intended.add(id);
+    if (!afterEntries.identified.has(id)) newUnidentified++;
+  }
+
+  const targets = [
+    ...(intent.removed ?? []).map(entry => ({ entry, removed: true })),
+    ...(intent.changed ?? []).map(entry => ({ entry, removed: false })),
+  ];
+  for (const { entry, removed } of targets) {
+    intended.add(entry.id);
+
+    if (entry.idMissing) {
+      const index = beforeEntries.unidentified.findIndex(s => s.entry.rawWithPrefix === entry.rawWithPrefix);
+      if (index < 0) return `"${summarize(entry)}" was not found`;
+      beforeEntries.unidentified.splice(index, 1);
+      // A changed entry may get its id written, or stay without one
+      if (!removed && !afterEntries.identified.has(entry.id)) newUnidentified++;
+      continue;
+    }
+
+    if (!beforeEntries.identified.has(entry.id)) return `"${summarize(entry)}" was not found`;
+    if (removed && afterEntries.identified.has(entry.id)) return `"${summarize(entry)}" would not be removed`;
+    if (!removed && !afterEntries.identified.has(entry.id)) return `"${summarize(entry)}" would be lost`;
+  }
+
+  // Every other entry keeps its content and archive state...
+  for (const id of new Set([...beforeEntries.identified.keys(), ...afterEntries.identified.keys()])) {
+    if (intended.has(id)) continue;
+
+    const beforeState = beforeEntries.identified.get(id);
+    const afterState = afterEntries.identified.get(id);
+    if (!beforeState) return `"${summarize(afterState?.entry)}" would be added`;
+    if (!afterState) return `"${summarize(beforeState.entry)}" would be lost`;
+    if (!sameState(beforeState, afterState)) return `"${summarize(beforeState.entry)}" would change`;
+  }
+
+  // ...and its order
+  const order = (parsed: ParsedMomentsDoc) => [...parsed.entries, ...parsed.archiveEntries]
+    .filter(e => !e.idMissing && !intended.has(e.id))
+    .map(e => e.id)
+    .join("\n");
+  if (order(beforeParsed) !== order(afterParsed)) {
+    return "other moments would be reordered";
+  }
+
+  // Entries without an id are matched by their text
+  for (const afterState of afterEntries.unidentified) {
+    const index = beforeEntries.unidentified.findIndex(s => sameState(s, afterState));
+    if (index >= 0) {
+      beforeEntries.unidentified.splice(index, 1);
+    } else if (newUnidentified-- <= 0) {
+      return `"${summarize(afterState.entry)}" would be added`;
+    }
+  }
+  const lost = beforeEntries.unidentified[0];
+  if (lost) {
+    return `"${summarize(lost.entry)}" would be lost or changed`;
+  }
+
+  return null;
+}
+
+/**
+ * Get the frontmatter of a document including its delimiters
+ */
+function getFrontmatterBlock(text: string): string {
+  const info = getFrontMatterInfo(text);
+  return info.exists ? text.substring(0, info.contentStart) : "";
+}
+
+/**
+ * Get the first line of an entry for messages
+ */
+function summarize(entry: MomentEntry | undefined): string {
+  return (entry?.rawWithPrefix.split("\n")[0] ?? "").substring(0, 50);
+}
@@ -6,7 +6,7 @@
  */
 
 import { App, TFile, TFolder, normalizePath } from "obsidian";
-import { createBasicFrontmatter, FRONTMATTER_KEY } from "./momentsFormat";
+import { createBasicFrontmatter, parseMomentsFrontmatter, FRONTMATTER_KEY } from "./momentsFormat";
 
 /**
  * Result of a file operation
@@ -70,7 +70,7 @@ export async function ensureMomentsFile(
 /**
  * Ensure a folder exists, creating it if necessary
  */
-async function ensureFolder(app: App, folderPath: string): Promise<void> {
+export async function ensureFolder(app: App, folderPath: string): Promise<void> {
   const normalizedPath = normalizePath(folderPath);
   const existing = app.vault.getAbstractFileByPath(normalizedPath);
   
@@ -105,21 +105,25 @@ export async function readMomentsFile(
 }
 
 /**
- * Write content to the Moments file
+ * Atomically update the contents of a Moments file
+ * 
+ * The update function receives the file's contents at the moment of
+ * writing, so text written in between by sync or another editor is seen
+ * rather than overwritten. It must be synchronous.
  * 
  * @param app - Obsidian app instance
  * @param file - The file to write
- * @param content - New content
- * @returns Success or error
+ * @param update - Maps the current contents to the new contents
+ * @returns The written contents or error
  */
-export async function writeMomentsFile(
+export async function processMomentsFile(
   app: App,
   file: TFile,
-  content: string
-): Promise<FileOperationResult> {
+  update: (current: string) => string
+): Promise<FileOperationResult<string>> {
   try {
-    await app.vault.modify(file, content);
-    return { success: true };
+    const content = await app.vault.process(file, update);
+    return { success: true, data: content };
   } catch (e) {
     return {
       success: false,
@@ -131,32 +135,22 @@ export async function writeMomentsFile(
 /**
  * Check if a file is a Moments file by checking its frontmatter
  * 
+ * Uses Obsidian's metadata cache, falling back to parsing the file
+ * when it has not been indexed yet.
+ * 
  * @param app - Obsidian app instance
  * @param file - File to check
  * @returns True if the file has moments-plugin: true in frontmatter
  */
 export async function isMomentsFile(app: App, file: TFile): Promise<boolean> {
+  const cache = app.metadataCache.getFileCache(file);
+  if (cache) {
+    return cache.frontmatter?.[FRONTMATTER_KEY] === true;
+  }
+  
   try {
-    const content = await app.vault.read(file);
-    
-    // Quick check for frontmatter key
-    if (!content.includes(FRONTMATTER_KEY)) {
-      return false;
-    }
-    
-    // Parse frontmatter
-    const match = content.match(/^---\n([\s\S]*?)\n---/);
-    if (!match) {
-      return false;
-    }
-    
-    const frontmatter = match[1];
-    if (!frontmatter) {
-      return false;
-    }
-    
-    return frontmatter.includes(`${FRONTMATTER_KEY}: true`) || 
-           frontmatter.includes(`${FRONTMATTER_KEY}:true`);
+    const content = await app.vault.cachedRead(file);
+    return parseMomentsFrontmatter(content)[FRONTMATTER_KEY] === true;
   } catch {
     return false;
   }
@@ -0,0 +1,182 @@
+/**
+ * Moments Merge - Entry-Level Comparison of Document Versions
+ *
+ * Combines our change to a Moments file with a change written to the same
+ * file in the meantime (by sync, another editor or another device).
+ * Entries are matched by block id, so edits to different moments never
+ * clobber each other. Only a moment changed on both sides is a conflict;
+ * the file's version of it is kept.
+ *
+ * The same matching diffs a backup snapshot against the current file and
+ * restores single entries from it.
+ */
+
+import type { EntryChange, EntryId, MomentEntry, ParsedMomentsDoc } from "../types";
+import {
+  parseMomentsDoc,
+  deleteEntrySpan,
+  getEntryBlockText,
+  appendToArchive,
+  insertEntryBlock,
+} from "./momentsFormat";
+import { indexEntries, sameState, type EntryState } from "./momentsEntries";
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult {
+  /** Merged document text */
+  text: string;
+  /** Entries changed both by us and in the file (the file's version was kept) */
+  conflicts: MomentEntry[];
+}
+
+/**
+ * Merge our version of a document into the version currently in the file
+ *
+ * @param base - Text both versions started from
+ * @param ours - Base with our change applied
+ * @param theirs - Text currently in the file
+ * @param timestampFormat - Format string for parsing timestamps
+ * @param fallbackFormats - Previously used timestamp formats
+ */
+export function mergeMomentsDocs(
+  base: string,
+  ours: string,
+  theirs: string,
+  timestampFormat: string,
+  fallbackFormats: string[] = []
+): MergeResult {
+  const parse = (text: string) => parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  const oursParsed = parse(ours);
+  const baseStates = indexEntries(base, parse(base)).identified;
+  const ourStates = indexEntries(ours, oursParsed).identified;
+  const theirStates = indexEntries(theirs, parse(theirs)).identified;
+
+  let text = theirs;
+  const conflicts: MomentEntry[] = [];
+
+  for (const id of new Set([...baseStates.keys(), ...ourStates.keys()])) {
+    const baseState = baseStates.get(id);
+    const ourState = ourStates.get(id);
+    const theirState = theirStates.get(id);
+
+    // Untouched by us, or the file already has our result
+    if (sameState(baseState, ourState) || sameState(theirState, ourState)) continue;
+
+    // Changed on both sides
+    if (!sameState(theirState, baseState)) {
+      const entry = theirState?.entry ?? ourState?.entry;
+      if (entry) conflicts.push(entry);
+      continue;
+    }
+
+    text = applyEntryState(text, id, ourState, oursParsed, parse);
+  }
+
+  return { text, conflicts };
+}
+
+/**
+ * List the entries that differ between two versions of a document
+ *
+ * @param before - Older text (e.g. a snapshot)
+ * @param after - Newer text (e.g. the current file)
+ * @returns Changes in the older version's order, followed by added entries
+ */
+export function diffMomentsDocs(
+  before: string,
+  after: string,
+  timestampFormat: string,
+  fallbackFormats: string[] = []
+): EntryChange[] {
+  const parse = (text: string) => parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  const beforeStates = indexEntries(before, parse(before)).identified;
+  const afterStates = indexEntries(after, parse(after)).identified;
+  const changes: EntryChange[] = [];
+
+  for (const id of new Set([...beforeStates.keys(), ...afterStates.keys()])) {
+    const beforeState = beforeStates.get(id);
+    const afterState = afterStates.get(id);
+    if (sameState(beforeState, afterState)) continue;
+
+    changes.push({
+      id,
+      kind: !afterState ? "removed" : !beforeState ? "added" : "changed",
+      before: beforeState?.entry,
+      after: afterState?.entry,
+      archivedBefore: beforeState?.archived ?? false,
+      archivedAfter: afterState?.archived ?? false,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Bring entries of a document back to the state they have in another version
+ *
+ * @param text - Text to change (e.g. the current file)
+ * @param source - Text holding the wanted state (e.g. a snapshot)
+ * @param ids - Entries to restore
+ * @returns The changed text
+ */
+export function restoreEntryStates(
+  text: string,
+  source: string,
+  ids: EntryId[],
+  timestampFormat: string,
+  fallbackFormats: string[] = []
+): string {
+  const parse = (text: string) => parseMomentsDoc(text, timestampFormat, fallbackFormats);
+  const sourceParsed = parse(source);
+  const sourceStates = indexEntries(source, sourceParsed).identified;
+
+  for (const id of ids) {
+    if (sameState(indexEntries(text, parse(text)).identified.get(id), sourceStates.get(id))) continue;
+    text = applyEntryState(text, id, sourceStates.get(id), sourceParsed, parse);
+  }
+
+  return text;
+}
+
+/**
+ * Bring one entry of the text into the state it has in our version
+ */
+function applyEntryState(
+  text: string,
+  id: EntryId,
+  ourState: EntryState | undefined,
+  oursParsed: ParsedMomentsDoc,
+  parse: (text: string) => ParsedMomentsDoc
+): string {
+  let parsed = parse(text);
+  const span = parsed.spans.get(id);
+  const archived = parsed.archiveEntries.some(e => e.id === id);
+
+  // Edited in place
+  if (span && ourState && archived === ourState.archived) {
+    const length = getEntryBlockText(text, span).trimEnd().length;
+    return text.substring(0, span.start) + ourState.block + text.substring(span.start + length);
+  }
+
+  // Deleted, or moved between the active entries and the archive
+  if (span) {
+    text = deleteEntrySpan(text, span);
+    parsed = parse(text);
+  }
+  if (!ourState) return text;
+
+  if (ourState.archived) {
+    return appendToArchive(text, ourState.block, parsed.archiveStartOffset >= 0, ourState.entry.archiveMonth);
+  }
+
+  // Keep the neighbours it has in our version
+  const index = oursParsed.entries.findIndex(e => e.id === id);
+  const afterId = index > 0 ? oursParsed.entries[index - 1]?.id : undefined;
+  return insertEntryBlock(text, parsed, ourState.block, {
+    insertionHint: index === 0 ? "prepend" : "append",
+    afterId,
+    beforeId: oursParsed.entries[index + 1]?.id,
+  });
+}
@@ -0,0 +1,101 @@
+/**
+ * Moments Path - Rotating Storage Path Templates
+ *
+ * Lets the storage path contain moment.js date tokens so captures rotate
+ * into one file per period, e.g. "Moments/{{YYYY}}/{{YYYY-MM}}.md".
+ *
+ * Date tokens are only formatted inside {{...}}, so a plain path such as
+ * "ADDRESS.md" or "MMORPG/Moments.md" stays a single file. Inside the
+ * braces only the date tokens below are formatted; every other character
+ * is kept literally.
+ */
+
+import { App, TFile, moment, normalizePath } from "obsidian";
+
+/** Date parts of a storage path template: {{...}} */
+const DATE_PART_REGEX = /\{\{([^{}]*)\}\}/g;
+
+/** Date tokens recognised in a date part (longest first) */
+const DATE_TOKEN_REGEX = /YYYY|GGGG|gggg|YY|MM|DD|WW|ww/g;
+
+/**
+ * Check if a storage path contains date parts with date tokens
+ */
+export function isStoragePathTemplate(path: string): boolean {
+  const dateToken = new RegExp(DATE_TOKEN_REGEX.source);
+  return [...path.matchAll(DATE_PART_REGEX)].some(match => dateToken.test(match[1] ?? ""));
+}
+
+/**
+ * Resolve a storage path template for a point in time
+ *
+ * @param template - Storage path, possibly containing date parts
+ * @param timestamp - Epoch milliseconds to format the tokens with
+ * @returns Normalized vault path of the file for that period
+ */
+export function formatStoragePath(template: string, timestamp: number): string {
+  const date = moment(timestamp);
+  return normalizePath(template.replace(DATE_PART_REGEX, (_, part: string) =>
+    part.replace(DATE_TOKEN_REGEX, (token) => date.format(token))
+  ));
+}
+
+/**
+ * Check if a vault path is one of the period files of a template
+ *
+ * @param template - Storage path template
+ * @param path - Vault path to test
+ */
+export function matchesStoragePath(template: string, path: string): boolean {
+  const normalized = normalizePath(template);
+  let pattern = "";
+  let lastIndex = 0;
+  
+  for (const match of normalized.matchAll(DATE_PART_REGEX)) {
+    const index = match.index ?? 0;
+    pattern += escapePattern(normalized.substring(lastIndex, index));
+    pattern += getDatePartPattern(match[1] ?? "");
+    lastIndex = index + match[0].length;
+  }
+  pattern += escapePattern(normalized.substring(lastIndex));
+  
+  return new RegExp(`^${pattern}$`).test(normalizePath(path));
+}
+
+/**
+ * Get the regex source matching a formatted date part
+ */
+function getDatePartPattern(part: string): string {
+  let pattern = "";
+  let lastIndex = 0;
+  
+  for (const match of part.matchAll(DATE_TOKEN_REGEX)) {
+    const index = match.index ?? 0;
+    pattern += escapePattern(part.substring(lastIndex, index));
+    pattern += `\\d{${match[0].length}}`;
+    lastIndex = index + match[0].length;
+  }
+  
+  return pattern + escapePattern(part.substring(lastIndex));
+}
+
+/**
+ * List all existing period files of a storage path template
+ *
+ * @param app - Obsidian app instance
+ * @param template - Storage path template
+ * @returns Matching files, sorted by path
+ */
+export function listStoragePathFiles(app: App, template: string): TFile[] {
+  return app.vault
+    .getMarkdownFiles()
+    .filter((file) => matchesStoragePath(template, file.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Escape regex special characters in a literal path segment
+ */
+function escapePattern(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,134 @@
+/**
+ * Moments Snapshots - Rolling Backups of Moments Files
+ *
+ * Before a write, the previous contents of a Moments file can be copied to
+ * the snapshot folder, one subfolder per file. Only the newest snapshots of
+ * each file are kept. The folder is accessed through the vault adapter, so
+ * a hidden folder (e.g. ".moments-snapshots") works and stays out of search
+ * and the graph. Snapshots are not Markdown files, so in a visible folder
+ * they are not indexed as Moments files either.
+ */
+
+import { App, moment, normalizePath } from "obsidian";
+import type { MomentsSnapshot } from "../types";
+import type { FileOperationResult } from "./momentsIO";
+
+/** File name format of a snapshot (sorts chronologically) */
+const SNAPSHOT_NAME_FORMAT = "YYYY-MM-DD_HH-mm-ss-SSS";
+
+/** File extension of a snapshot (not ".md", the copy keeps the moments-plugin marker) */
+const SNAPSHOT_EXTENSION = ".bak";
+
+/**
+ * Get the folder holding the snapshots of one file
+ *
+ * @param root - Snapshot folder from the settings
+ * @param sourcePath - Vault path of the Moments file
+ */
+function getSnapshotFolder(root: string, sourcePath: string): string {
+  return normalizePath(`${root}/${encodeURIComponent(sourcePath)}`);
+}
+
+/**
+ * List the snapshots of a file, newest first
+ *
+ * @param app - Obsidian app instance
+ * @param root - Snapshot folder from the settings
+ * @param sourcePath - Vault path of the Moments file
+ */
+export async function listSnapshots(
+  app: App,
+  root: string,
+  sourcePath: string
+): Promise<MomentsSnapshot[]> {
+  const folder = getSnapshotFolder(root, sourcePath);
+  const { adapter } = app.vault;
+
+  try {
+    if (!(await adapter.exists(folder))) return [];
+
+    const { files } = await adapter.list(folder);
+    const snapshots: MomentsSnapshot[] = [];
+
+    for (const path of files) {
+      const name = path.substring(path.lastIndexOf("/") + 1);
+      if (!name.endsWith(SNAPSHOT_EXTENSION)) continue;
+
+      const time = moment(name.slice(0, -SNAPSHOT_EXTENSION.length), SNAPSHOT_NAME_FORMAT, true);
+      if (!time.isValid()) continue;
+
+      snapshots.push({ sourcePath, path, createdAt: time.valueOf() });
+    }
+
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+  } catch (e) {
+    console.error("Failed to list Moments snapshots:", e);
+    return [];
+  }
+}
+
+/**
+ * Store a snapshot of a file and drop its oldest snapshots beyond the limit
+ *
+ * @param app - Obsidian app instance
+ * @param root - Snapshot folder from the settings
+ * @param sourcePath - Vault path of the Moments file
+ * @param text - Contents to store
+ * @param keep - Number of snapshots to keep for the file
+ * @returns The new snapshot or error
+ */
+export async function writeSnapshot(
+  app: App,
+  root: string,
+  sourcePath: string,
+  text: string,
+  keep: number
+): Promise<FileOperationResult<MomentsSnapshot>> {
+  const folder = getSnapshotFolder(root, sourcePath);
+  const { adapter } = app.vault;
+  const createdAt = Date.now();
+  const path = normalizePath(
+    `${folder}/${moment(createdAt).format(SNAPSHOT_NAME_FORMAT)}${SNAPSHOT_EXTENSION}`
+  );
+
+  try {
+    if (!(await adapter.exists(folder))) {
+      await adapter.mkdir(folder);
+    }
+    await adapter.write(path, text);
+
+    const stale = (await listSnapshots(app, root, sourcePath)).slice(Math.max(1, keep));
+    for (const snapshot of stale) {
+      await adapter.remove(snapshot.path);
+    }
+
+    return { success: true, data: { sourcePath, path, createdAt } };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to write snapshot: ${e instanceof Error ? e.message : String(e)}`,
+    };
+  }
+}
+
+/**
+ * Read the contents of a snapshot
+ *
+ * @param app - Obsidian app instance
+ * @param snapshot - Snapshot to read
+ * @returns Snapshot contents or error
+ */
+export async function readSnapshot(
+  app: App,
+  snapshot: MomentsSnapshot
+): Promise<FileOperationResult<string>> {
+  try {
+    const content = await app.vault.adapter.read(snapshot.path);
+    return { success: true, data: content };
+  } catch (e) {
+    return {
+      success: false,
+      error: `Failed to read snapshot: ${e instanceof Error ? e.message : String(e)}`,
+    };
+  }
+}
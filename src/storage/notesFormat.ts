@@ -0,0 +1,189 @@
+/**
+ * Moments Notes Format - One Note per Moment
+ *
+ * Parsing and serialization for the note-per-moment storage backend.
+ * Every moment is a regular note, so Dataview, the graph and sync tools
+ * treat it as a first-class note.
+ *
+ * File format:
+ * ---
+ * created: 2026-01-02T10:21:00+01:00
+ * id: m-abc123
+ * tags:
+ *   - idea
+ * ---
+ *
+ * This is a moment #idea [[Link]]
+ * Second line of content
+ */
+
+import { getFrontMatterInfo, moment, parseYaml, stringifyYaml } from "obsidian";
+import type { MomentEntry, ParsedMomentsDoc } from "../types";
+import { generateBlockId, isValidBlockId } from "../utils/id";
+import { extractInlineFields, extractTags } from "../utils/markdown";
+import { formatTimestamp } from "../utils/time";
+
+/** Format of note file names (sortable, unique per second) */
+const NOTE_FILE_NAME_FORMAT = "YYYYMMDDHHmmss";
+
+/**
+ * Parse a moment note
+ *
+ * @param text - Raw note text
+ * @param timestampFormat - Format used for the displayed timestamp prefix
+ * @param fallbackCreatedAt - Creation time to use when frontmatter has none (e.g. file ctime)
+ * @param existingIds - Ids already taken, to keep generated ids unique
+ * @returns The entry and any problems found; no entry for notes without
+ *          moment frontmatter (created or id), which are other notes
+ *          kept in the folder
+ */
+export function parseMomentNote(
+  text: string,
+  timestampFormat: string,
+  fallbackCreatedAt: number,
+  existingIds: Set<string>
+): { entry: MomentEntry | null; errors: ParsedMomentsDoc["errors"] } {
+  const errors: ParsedMomentsDoc["errors"] = [];
+  const info = getFrontMatterInfo(text);
+  const frontmatter = readFrontmatter(info.exists ? info.frontmatter : "");
+  const raw = text.substring(info.contentStart).trim();
+  
+  if (!frontmatter || (frontmatter.created === undefined && frontmatter.id === undefined) || !raw) {
+    return { entry: null, errors };
+  }
+  
+  let id = typeof frontmatter.id === "string" && isValidBlockId(frontmatter.id)
+    ? frontmatter.id
+    : null;
+  const duplicateId = id && existingIds.has(id) ? id : undefined;
+  const idMissing = !id || !!duplicateId;
+  if (!id || idMissing) {
+    id = generateBlockId(existingIds);
+    errors.push({
+      kind: duplicateId ? "duplicateId" : "missingId",
+      message: `Note missing a unique id, assigned: ${id}`,
+      context: raw.substring(0, 50),
+      line: 0,
+      entryId: id,
+    });
+  }
+  
+  const created = moment(frontmatter.created as string | Date | undefined);
+  const createdAt = frontmatter.created !== undefined && created.isValid()
+    ? created.valueOf()
+    : fallbackCreatedAt;
+  
+  return {
+    entry: {
+      id,
+      createdAt,
+      raw,
+      rawWithPrefix: `${formatTimestamp(createdAt, timestampFormat)} ${raw}`,
+      fields: extractInlineFields(raw).fields,
+      idMissing,
+      duplicateId,
+    },
+    errors,
+  };
+}
+
+/**
+ * Create the text of a new moment note
+ *
+ * @param content - The entry content
+ * @param id - Block id of the entry
+ * @param createdAt - Creation time in epoch milliseconds
+ */
+export function createMomentNote(content: string, id: string, createdAt: number): string {
+  return serializeMomentNote(
+    { created: moment(createdAt).format(), id },
+    content
+  );
+}
+
+/**
+ * Replace the body of a moment note, keeping its frontmatter
+ *
+ * Frontmatter tags taken from the old content are replaced by the tags
+ * of the new content; tags added to the frontmatter by hand are kept.
+ *
+ * @param createdAt - New creation time in epoch milliseconds (kept if omitted)
+ * @returns The new note text, or null if the frontmatter cannot be read
+ *          (rewriting it would lose its keys)
+ */
+export function replaceMomentNoteBody(text: string, content: string, createdAt?: number): string | null {
+  const info = getFrontMatterInfo(text);
+  const frontmatter = readFrontmatter(info.exists ? info.frontmatter : "");
+  if (!frontmatter) return null;
+  if (createdAt !== undefined) {
+    frontmatter.created = moment(createdAt).format();
+  }
+  return serializeMomentNote(frontmatter, content, text.substring(info.contentStart));
+}
+
+/**
+ * Get the file name (without extension) for a note created at a time
+ */
+export function getMomentNoteFileName(createdAt: number): string {
+  return moment(createdAt).format(NOTE_FILE_NAME_FORMAT);
+}
+
+/**
+ * Serialize frontmatter and body into note text
+ *
+ * The body's tags are added to the frontmatter tags, and tags of the
+ * previous body no longer in it are removed (tags are compared ignoring
+ * case, as Obsidian does).
+ *
+ * @param previousContent - Body the note had before (none for a new note)
+ */
+function serializeMomentNote(frontmatter: Record<string, unknown>, content: string, previousContent = ""): string {
+  const getBodyTags = (body: string) => extractTags(body).tags.map(tag => tag.substring(1));
+  const bodyTags = getBodyTags(content);
+  const current = new Set(bodyTags.map(tag => tag.toLowerCase()));
+  const removed = new Set(getBodyTags(previousContent).map(tag => tag.toLowerCase()).filter(tag => !current.has(tag)));
+  
+  const existing = readFrontmatterTags(frontmatter.tags);
+  const kept = existing.filter(tag => !removed.has(tag.toLowerCase()));
+  const keptKeys = new Set(kept.map(tag => tag.toLowerCase()));
+  const tags = [...kept, ...bodyTags.filter(tag => !keptKeys.has(tag.toLowerCase()))];
+  
+  const data = { ...frontmatter };
+  if (tags.length === 0) {
+    delete data.tags;
+  } else if (tags.join("\n") !== existing.join("\n")) {
+    data.tags = tags;
+  }
+  
+  return `---\n${stringifyYaml(data)}---\n\n${content}\n`;
+}
+
+/**
+ * Read the tags property of a note's frontmatter
+ *
+ * Accepts a list or a comma or space separated string, with or without "#".
+ */
+function readFrontmatterTags(value: unknown): string[] {
+  const values = Array.isArray(value) ? value as unknown[] : typeof value === "string" ? value.split(/[,\s]+/) : [];
+  return values
+    .filter((tag): tag is string => typeof tag === "string")
+    .map(tag => tag.trim().replace(/^#/, ""))
+    .filter(tag => tag.length > 0);
+}
+
+/**
+ * Parse YAML frontmatter into a plain object
+ *
+ * @returns The frontmatter, or null if it is not valid YAML or not a mapping
+ */
+function readFrontmatter(yaml: string): Record<string, unknown> | null {
+  if (!yaml.trim()) return {};
+  
+  try {
+    const data: unknown = parseYaml(yaml);
+    if (data === null || data === undefined) return {};
+    return typeof data === "object" && !Array.isArray(data) ? data as Record<string, unknown> : null;
+  } catch {
+    return null;
+  }
+}
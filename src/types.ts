@@ -8,6 +8,12 @@
 /** Entry ID - Obsidian block id format: "m-xxxxx" */
 export type EntryId = string;
 
+/**
+ * Value of an inline metadata field (Dataview-style `key:: value`)
+ * Numbers and booleans are typed; links like "[[Book]]" stay strings.
+ */
+export type InlineFieldValue = string | number | boolean;
+
 /**
  * A single moment entry parsed from markdown
  */
@@ -24,8 +30,20 @@ export interface MomentEntry {
   /** Markdown content including optional timestamp prefix (what user sees in editor) */
   rawWithPrefix: string;
   
+  /** Inline metadata fields (`mood:: 4`), keyed by lowercased field name */
+  fields: Record<string, InlineFieldValue>;
+  
   /** Flag for entries missing block id (need to be fixed on next edit) */
   idMissing?: boolean;
+  
+  /** Block id the entry carried in the file when it duplicated another entry's id */
+  duplicateId?: EntryId;
+  
+  /** Flag for entries whose prefix matches no known timestamp format (createdAt is a guess) */
+  timestampMissing?: boolean;
+  
+  /** Month sub-heading ("YYYY-MM") the entry is filed under in the archive */
+  archiveMonth?: string;
 }
 
 /**
@@ -43,6 +61,29 @@ export interface EntrySpan {
   end: number;
 }
 
+/**
+ * A problem found while parsing stored entries
+ */
+export interface MomentsParseError {
+  /** What kind of problem this is */
+  kind: "frontmatter" | "missingId" | "duplicateId" | "timestamp" | "orphan";
+  
+  /** Human readable description */
+  message: string;
+  
+  /** Start of the offending text */
+  context?: string;
+  
+  /** Line in the file (0-based), when known */
+  line?: number;
+  
+  /** Vault path of the file (set by the store) */
+  path?: string;
+  
+  /** Entry the problem belongs to */
+  entryId?: EntryId;
+}
+
 /**
  * Result of parsing a Moments markdown document
  */
@@ -57,7 +98,7 @@ export interface ParsedMomentsDoc {
   archiveEntries: MomentEntry[];
   
   /** Parsing errors encountered */
-  errors: Array<{ message: string; context?: string }>;
+  errors: MomentsParseError[];
   
   /** Original source text snapshot */
   originalText: string;
@@ -73,6 +114,9 @@ export interface ParsedMomentsDoc {
  * Information about a deleted entry for undo functionality
  */
 export interface DeletedEntryInfo {
+  /** Id of the deleted entry */
+  id: EntryId;
+  
   /** The raw entry block text (can be re-inserted) */
   entryBlock: string;
   
@@ -82,7 +126,81 @@ export interface DeletedEntryInfo {
   /** If insertionHint is 'afterId', the id of the entry to insert after */
   afterId?: EntryId;
   
+  /** Id of the entry that followed the deleted one (fallback position) */
+  beforeId?: EntryId;
+  
+  /** Whether the entry was moved to the archive rather than removed */
+  archived: boolean;
+  
+  /** Whether the entry was removed from the archive (it is restored there) */
+  fromArchive: boolean;
+  
+  /** Month sub-heading the entry was filed under in the archive */
+  archiveMonth?: string;
+  
+  /** Path of the file the entry was deleted from */
+  sourcePath: string;
+  
   /** Timestamp of deletion for expiration */
   deletedAt: number;
 }
 
+
+/**
+ * Preview of rewriting all timestamp prefixes to the current format
+ */
+export interface TimestampMigrationPreview {
+  /** Number of entries whose prefix would be rewritten */
+  changed: number;
+  
+  /** Entries whose prefix matches no known format (left untouched) */
+  unparseable: MomentEntry[];
+}
+
+/**
+ * A stored copy of a Moments file taken before a write
+ */
+export interface MomentsSnapshot {
+  /** Vault path of the file the snapshot was taken from */
+  sourcePath: string;
+  
+  /** Path of the snapshot (relative to the vault root) */
+  path: string;
+  
+  /** When the snapshot was taken (epoch ms) */
+  createdAt: number;
+}
+
+/**
+ * Difference of one entry between two versions of a Moments file
+ */
+export interface EntryChange {
+  /** Block id of the entry */
+  id: EntryId;
+  
+  /** Only in the newer version, only in the older version, or different in both */
+  kind: "added" | "removed" | "changed";
+  
+  /** The entry in the older version */
+  before?: MomentEntry;
+  
+  /** The entry in the newer version */
+  after?: MomentEntry;
+  
+  /** Whether the entry was in the archive in the older version */
+  archivedBefore: boolean;
+  
+  /** Whether the entry is in the archive in the newer version */
+  archivedAfter: boolean;
+}
+
+/**
+ * Tags selected to filter the view
+ */
+export interface TagFilter {
+  /** Selected tags, lowercased with "#" (nested tags of each also match) */
+  tags: string[];
+  
+  /** Whether an entry needs all selected tags or any of them */
+  mode: "and" | "or";
+}
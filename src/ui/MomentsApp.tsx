@@ -1,12 +1,19 @@
 /**
  * Moments App - Main Preact Component
- * 
+ *
  * The root component that assembles the Moments UI.
+ * Tabs switch between the stream (with the capture input) and the archive.
+ * The saved views menu next to the tabs applies saved filters to either.
+ * The tab shown is kept in the view state (see MomentsView.getState).
  */
 
+import { useState, useCallback } from "preact/hooks";
 import { MomentsContext, type MomentsContextValue } from "./context";
 import { CaptureInput } from "./components/CaptureInput";
 import { EntryList } from "./components/EntryList";
+import { ArchiveList } from "./components/ArchiveList";
+import { SavedViewsMenu } from "./components/SavedViewsMenu";
+import type { MomentsTab } from "../view/MomentsViewTypes";
 
 interface MomentsAppProps {
   context: MomentsContextValue;
@@ -16,11 +23,39 @@ interface MomentsAppProps {
  * Main Moments application component
  */
 export function MomentsApp({ context }: MomentsAppProps) {
+  const [tab, setTabState] = useState<MomentsTab>(() => context.getViewState().tab);
+
+  const setTab = useCallback((next: MomentsTab) => {
+    setTabState(next);
+    context.updateViewState({ tab: next });
+  }, [context]);
+
   return (
     <MomentsContext.Provider value={context}>
       <div className="moments-container">
-        <CaptureInput />
-        <EntryList />
+        <div className="moments-tabs">
+          <button
+            className={tab === "stream" ? "moments-tab is-active" : "moments-tab"}
+            onClick={() => setTab("stream")}
+          >
+            Stream
+          </button>
+          <button
+            className={tab === "archive" ? "moments-tab is-active" : "moments-tab"}
+            onClick={() => setTab("archive")}
+          >
+            Archive
+          </button>
+          <SavedViewsMenu />
+        </div>
+        {tab === "stream" ? (
+          <>
+            <CaptureInput />
+            <EntryList />
+          </>
+        ) : (
+          <ArchiveList />
+        )}
       </div>
     </MomentsContext.Provider>
   );
@@ -0,0 +1,191 @@
+/**
+ * Archive List Component
+ *
+ * Displays the archived moments with the same cards as the stream.
+ * Each card can be restored to the stream or deleted permanently;
+ * the toolbar purges old archived moments (see PurgeArchiveModal).
+ *
+ * The moments are grouped by month, newest first, under headers that
+ * collapse and expand the month. Moments filed under a month sub-heading
+ * in the file are grouped by it, others by the month they were created.
+ * Stepping to a search result in a collapsed month expands the month.
+ * The collapsed months and the scroll position are kept in the view state.
+ */
+
+import { useEffect, useState, useCallback, useMemo } from "preact/hooks";
+import { moment } from "obsidian";
+import type { MomentEntry } from "../../types";
+import { useApp, useSavedScroll, useStateManager, useViewState } from "../context";
+import { PurgeArchiveModal } from "../modals/PurgeArchiveModal";
+import { EntryCard } from "./EntryCard";
+import { SearchBox, useResultNavigation } from "./SearchBox";
+import { TagFacetBar } from "./TagFacetBar";
+import { VirtualList } from "./VirtualList";
+
+/** Row of the list: a month header or an archived moment */
+type ArchiveRow =
+  | { type: "month"; month: string; count: number; collapsed: boolean }
+  | { type: "entry"; entry: MomentEntry };
+
+const getRowKey = (row: ArchiveRow) => row.type === "month" ? `month:${row.month}` : row.entry.id;
+
+/**
+ * Get the month an archived moment is grouped under ("YYYY-MM")
+ */
+function getEntryMonth(entry: MomentEntry): string {
+  return entry.archiveMonth ?? moment(entry.createdAt).format("YYYY-MM");
+}
+
+/**
+ * Group archived moments into month rows, newest month first
+ */
+function buildRows(entries: MomentEntry[], collapsed: Set<string>): ArchiveRow[] {
+  const byMonth: Map<string, MomentEntry[]> = new Map();
+  for (const entry of entries) {
+    const month = getEntryMonth(entry);
+    const group = byMonth.get(month) ?? [];
+    group.push(entry);
+    byMonth.set(month, group);
+  }
+
+  const rows: ArchiveRow[] = [];
+  for (const month of [...byMonth.keys()].sort().reverse()) {
+    const monthEntries = byMonth.get(month) ?? [];
+    const isCollapsed = collapsed.has(month);
+    rows.push({ type: "month", month, count: monthEntries.length, collapsed: isCollapsed });
+    if (!isCollapsed) {
+      rows.push(...monthEntries.map(entry => ({ type: "entry" as const, entry })));
+    }
+  }
+  return rows;
+}
+
+export function ArchiveList() {
+  const app = useApp();
+  const stateManager = useStateManager();
+  const [entries, setEntries] = useState<MomentEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const { getViewState, updateViewState } = useViewState();
+  const { initialAnchor, onAnchorChange } = useSavedScroll("archive");
+  // Months whose moments are hidden
+  const [collapsed, setCollapsed] = useState<Set<string>>(() => new Set(getViewState().collapsedMonths));
+
+  // Subscribe to state changes (archived entries change along with the stream)
+  useEffect(() => {
+    const update = () => {
+      setEntries(stateManager.searchArchivedEntries());
+      setTotalCount(stateManager.getArchivedEntries().length);
+    };
+    update();
+
+    const unsubscribe = stateManager.subscribe(update);
+
+    return unsubscribe;
+  }, [stateManager]);
+
+  const handlePurge = useCallback(() => {
+    new PurgeArchiveModal(app, stateManager).open();
+  }, [app, stateManager]);
+
+  const toggleMonth = useCallback((month: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (!next.delete(month)) next.add(month);
+      return next;
+    });
+  }, []);
+
+  // Keep the collapsed months in the view state
+  useEffect(() => {
+    const collapsedMonths = [...collapsed].sort();
+    if (collapsedMonths.join() !== getViewState().collapsedMonths.join()) {
+      updateViewState({ collapsedMonths });
+    }
+  }, [collapsed, getViewState, updateViewState]);
+
+  const rows = useMemo(() => buildRows(entries, collapsed), [entries, collapsed]);
+
+  // Results in display order: by month, newest first
+  const keys = useMemo(
+    () => buildRows(entries, new Set()).flatMap(row => row.type === "entry" ? [row.entry.id] : []),
+    [entries]
+  );
+  const { current, currentIndex, navigate } = useResultNavigation(keys);
+
+  // Expand the month of the selected result
+  useEffect(() => {
+    const entry = current && entries.find(e => e.id === current.key);
+    if (!entry) return;
+    const month = getEntryMonth(entry);
+    setCollapsed(prev => {
+      if (!prev.has(month)) return prev;
+      const next = new Set(prev);
+      next.delete(month);
+      return next;
+    });
+  }, [current, entries]);
+
+  const renderRow = useCallback((row: ArchiveRow) => {
+    if (row.type === "entry") {
+      return <EntryCard entry={row.entry} archived />;
+    }
+    return (
+      <button
+        className={row.collapsed ? "moments-archive-month is-collapsed" : "moments-archive-month"}
+        aria-expanded={!row.collapsed}
+        onClick={() => toggleMonth(row.month)}
+      >
+        <span className="moments-archive-month-title">
+          {moment(row.month, "YYYY-MM").format("MMMM YYYY")}
+        </span>
+        <span className="moments-archive-month-count">{row.count}</span>
+      </button>
+    );
+  }, [toggleMonth]);
+
+  const isFiltered = stateManager.isFiltered();
+
+  return (
+    <>
+      <SearchBox resultCount={entries.length} currentResult={currentIndex} onNavigate={navigate} />
+      <TagFacetBar archived />
+      <div className="moments-archive-toolbar">
+        <span className="moments-archive-count">
+          {totalCount} archived {totalCount === 1 ? "moment" : "moments"}
+        </span>
+        <button
+          className="moments-archive-purge-btn"
+          onClick={handlePurge}
+          disabled={totalCount === 0}
+        >
+          Purge…
+        </button>
+      </div>
+      <div className="moments-list-wrapper">
+        {entries.length === 0 ? (
+          <div className="moments-empty-state">
+            <div className="moments-empty-state-icon">
+              {isFiltered ? "🔍" : "🗄️"}
+            </div>
+            <p>{isFiltered ? "No matching archived moments" : "The archive is empty"}</p>
+            <p style={{ fontSize: "var(--font-ui-smaller)" }}>
+              {isFiltered
+                ? "Try a different search or tag selection"
+                : "Archived moments show up here"}
+            </p>
+          </div>
+        ) : (
+          <VirtualList
+            className="moments-list is-archive"
+            items={rows}
+            getKey={getRowKey}
+            renderItem={renderRow}
+            activeItem={current}
+            initialAnchor={initialAnchor}
+            onAnchorChange={onAnchorChange}
+          />
+        )}
+      </div>
+    </>
+  );
+}
@@ -2,43 +2,54 @@
  * Entry Card Component
  * 
  * Displays a single moment entry with timestamp and actions.
- * Supports double-click to edit (inline or modal based on settings).
+ * Supports double-click to edit (inline or in EntryEditModal based on settings).
  * Supports right-click context menu for edit/delete.
  * Renders markdown content using Obsidian's native renderer.
- * Tags are extracted and displayed in the card footer.
+ * Tags and inline fields are extracted and displayed in the card footer.
+ * Archived entries offer restoring to the stream and permanent deletion.
+ * Search matches are highlighted in the content.
  */
 
 import { useCallback, useState, useMemo } from "preact/hooks";
 import { Menu, Notice } from "obsidian";
-import type { MomentEntry } from "../../types";
-import { useSettings, useStateManager, useApp } from "../context";
+import type { MomentEntry, InlineFieldValue } from "../../types";
+import { useSettings, useStateManager, useApp, useMomentsContext } from "../context";
 import { formatTimestamp, relativeTime } from "../../utils/time";
 import { EntryEditorInline } from "./EntryEditorInline";
+import { EntryEditModal } from "../modals/EntryEditModal";
 import { MarkdownRenderer } from "./MarkdownRenderer";
-import { containsMarkdownSyntax, extractTags } from "../../utils/markdown";
+import {
+  containsMarkdownSyntax,
+  extractInlineFields,
+  extractTags,
+  highlightMatches,
+  type MatchRange,
+} from "../../utils/markdown";
 import { removeBlockId } from "../../utils/id";
+import { handleTagClick } from "../../helpers/renderMarkdown";
 
 interface EntryCardProps {
   entry: MomentEntry;
+  /** Whether the entry is shown in the archive */
+  archived?: boolean;
 }
 
 /**
  * Tags component - displays tags in the card footer
- * Clicking a tag opens global search
+ * Clicking a tag filters the view by it; Mod-click opens global search
  */
 function Tags({ tags }: { tags: string[] }) {
   const app = useApp();
+  const stateManager = useStateManager();
   
   if (!tags.length) return null;
   
-  const handleTagClick = (e: MouseEvent, tag: string) => {
+  const selected = stateManager.getTagFilter().tags;
+  
+  const onTagClick = (e: MouseEvent, tag: string) => {
     e.preventDefault();
     e.stopPropagation();
-    
-    // Open global search with tag
-    (app as any).internalPlugins
-      ?.getPluginById?.("global-search")
-      ?.instance?.openGlobalSearch?.(`tag:${tag}`);
+    handleTagClick(e, tag, app, stateManager);
   };
   
   return (
@@ -47,8 +58,8 @@ function Tags({ tags }: { tags: string[] }) {
         <a
           key={i}
           href={tag}
-          className="tag moments-entry-tag"
-          onClick={(e) => handleTagClick(e as unknown as MouseEvent, tag)}
+          className={selected.includes(tag.toLowerCase()) ? "tag moments-entry-tag is-active" : "tag moments-entry-tag"}
+          onClick={(e) => onTagClick(e as unknown as MouseEvent, tag)}
         >
           <span>{tag[0]}</span>
           {tag.slice(1)}
@@ -58,48 +69,107 @@ function Tags({ tags }: { tags: string[] }) {
   );
 }
 
-export function EntryCard({ entry }: EntryCardProps) {
+/**
+ * Plain text with highlighted matches (preserves whitespace)
+ */
+function HighlightedText({ text, findMatches }: { text: string; findMatches: (text: string) => MatchRange[] }) {
+  const segments = useMemo(() => highlightMatches(text, findMatches(text)), [text, findMatches]);
+  
+  return (
+    <span style={{ whiteSpace: "pre-wrap" }}>
+      {segments.map((segment, i) =>
+        segment.highlighted
+          ? <mark key={i} className="moments-highlight">{segment.text}</mark>
+          : segment.text
+      )}
+    </span>
+  );
+}
+
+/**
+ * Fields component - displays inline fields (`key:: value`) as chips in the card footer
+ * Link values open the linked note
+ */
+function Fields({ fields }: { fields: Record<string, InlineFieldValue> }) {
+  const keys = Object.keys(fields);
+  
+  if (!keys.length) return null;
+  
+  return (
+    <div className="moments-entry-fields">
+      {keys.map((key) => {
+        const value = String(fields[key]);
+        const link = value.match(/^\[\[([^\]|#]+)(?:[#|][^\]]*)?\]\]$/)?.[1];
+        
+        return (
+          <span key={key} className="moments-entry-field">
+            <span className="moments-entry-field-key">{key}</span>
+            {link ? (
+              <a
+                className="internal-link moments-entry-field-value"
+                data-href={link}
+                href={link}
+              >
+                {link}
+              </a>
+            ) : (
+              <span className="moments-entry-field-value">{value}</span>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+export function EntryCard({ entry, archived = false }: EntryCardProps) {
+  const context = useMomentsContext();
   const settings = useSettings();
   const stateManager = useStateManager();
   const [isEditing, setIsEditing] = useState(false);
 
   const handleDelete = useCallback(async () => {
     if (settings.confirmBeforeDelete) {
-      if (!confirm("Delete this moment?")) {
+      if (!confirm(archived ? "Permanently delete this moment?" : "Delete this moment?")) {
         return;
       }
     }
     
-    await stateManager.deleteEntry(entry.id);
+    const deleted = await stateManager.deleteEntry(entry.id);
     
     // Show undo toast if enabled
-    if (settings.enableUndoToast) {
+    if (deleted && settings.enableUndoToast) {
       const notice = new Notice("Moment deleted. Click to undo.", settings.undoToastDuration);
       
       // Make notice clickable for undo
       const noticeEl = (notice as unknown as { noticeEl: HTMLElement }).noticeEl;
-      noticeEl.style.cursor = "pointer";
+      noticeEl.setCssProps({ cursor: "pointer" });
       noticeEl.addEventListener("click", async () => {
-        const undone = await stateManager.undoLastDelete();
+        const undone = await stateManager.undoLastDelete(entry.id);
         notice.hide();
         if (undone) {
           new Notice("Moment restored.", 2000);
         }
       });
     }
-  }, [entry.id, settings.confirmBeforeDelete, settings.enableUndoToast, settings.undoToastDuration, stateManager]);
+  }, [entry.id, archived, settings.confirmBeforeDelete, settings.enableUndoToast, settings.undoToastDuration, stateManager]);
 
-  const handleDoubleClick = useCallback(() => {
-    if (!settings.enableDoubleClickEdit) return;
-    
-    if (settings.editMode === "inline") {
-      setIsEditing(true);
+  const handleRestore = useCallback(async () => {
+    await stateManager.restoreFromArchive([entry.id]);
+  }, [entry.id, stateManager]);
+
+  const startEditing = useCallback(() => {
+    if (settings.editMode === "modal") {
+      new EntryEditModal(context, entry).open();
     } else {
-      // Modal editing - for now, fall back to inline
-      // Can be enhanced later with a proper modal
       setIsEditing(true);
     }
-  }, [settings.enableDoubleClickEdit, settings.editMode]);
+  }, [context, entry, settings.editMode]);
+
+  const handleDoubleClick = useCallback(() => {
+    if (!settings.enableDoubleClickEdit) return;
+    startEditing();
+  }, [settings.enableDoubleClickEdit, startEditing]);
 
   const handleEditClose = useCallback(() => {
     setIsEditing(false);
@@ -127,22 +197,34 @@ export function EntryCard({ entry }: EntryCardProps) {
         .setIcon("lucide-edit")
         .setTitle("Edit")
         .onClick(() => {
-          setIsEditing(true);
+          startEditing();
         });
     });
 
+    // Restore option (archive only)
+    if (archived) {
+      menu.addItem((item) => {
+        item
+          .setIcon("lucide-archive-restore")
+          .setTitle("Restore to stream")
+          .onClick(() => {
+            void handleRestore();
+          });
+      });
+    }
+
     // Delete option
     menu.addItem((item) => {
       item
         .setIcon("lucide-trash-2")
-        .setTitle("Delete")
+        .setTitle(archived ? "Delete permanently" : "Delete")
         .onClick(() => {
           handleDelete();
         });
     });
 
     menu.showAtMouseEvent(e);
-  }, [handleDelete]);
+  }, [archived, handleDelete, handleRestore, startEditing]);
 
   const timestamp = settings.showTimestamps
     ? formatTimestamp(entry.createdAt, settings.timestampFormat)
@@ -153,27 +235,26 @@ export function EntryCard({ entry }: EntryCardProps) {
   // Clean content: ensure no block IDs are displayed (safety net)
   const cleanContent = useMemo(() => removeBlockId(entry.raw), [entry.raw]);
 
-  // Extract tags from content and get content without tags
+  // Extract tags from content (inline fields already removed) and get content without tags
   const { tags, contentWithoutTags } = useMemo(
-    () => extractTags(cleanContent),
+    () => extractTags(extractInlineFields(cleanContent).contentWithoutFields),
     [cleanContent]
   );
 
-  // Display content with tags removed (tags shown in footer)
+  // Display content with tags and fields removed (both shown in footer)
   const displayContent = contentWithoutTags;
+  const hasFields = Object.keys(entry.fields).length > 0;
 
   // Check if content has markdown that needs rendering
   const hasMarkdown = containsMarkdownSyntax(displayContent);
 
-  // Render inline editor if editing
+  // Search matches to highlight (the function changes with the query)
+  const findMatches = stateManager.getSearchMatcher();
+
+  // Render inline editor if editing (it shows the timestamp in a picker)
   if (isEditing) {
     return (
       <div className="moments-entry is-editing" data-id={entry.id}>
-        {timestamp && (
-          <div className="moments-entry-timestamp" title={relTime}>
-            {timestamp}
-          </div>
-        )}
         <EntryEditorInline entry={entry} onClose={handleEditClose} />
       </div>
     );
@@ -181,7 +262,7 @@ export function EntryCard({ entry }: EntryCardProps) {
 
   return (
     <div
-      className="moments-entry"
+      className={archived ? "moments-entry is-archived" : "moments-entry"}
       data-id={entry.id}
       onDblClick={handleDoubleClick}
       onContextMenu={handleContextMenu}
@@ -193,23 +274,24 @@ export function EntryCard({ entry }: EntryCardProps) {
       )}
       <div className="moments-entry-content">
         {hasMarkdown ? (
-          <MarkdownRenderer content={displayContent} />
+          <MarkdownRenderer content={displayContent} findMatches={findMatches} />
         ) : (
-          // Plain text - just render as-is (preserves whitespace)
-          <span style={{ whiteSpace: "pre-wrap" }}>{displayContent}</span>
+          // Plain text - render as-is apart from the highlights
+          <HighlightedText text={displayContent} findMatches={findMatches} />
         )}
       </div>
-      {/* Tags footer - only shown if there are tags */}
-      {tags.length > 0 && (
+      {/* Footer - only shown if there are tags or inline fields */}
+      {(tags.length > 0 || hasFields) && (
         <div className="moments-entry-footer">
           <Tags tags={tags} />
+          <Fields fields={entry.fields} />
         </div>
       )}
       <div className="moments-entry-actions">
         {settings.enableDoubleClickEdit && (
           <button
             className="moments-entry-action-btn"
-            onClick={() => setIsEditing(true)}
+            onClick={startEditing}
             aria-label="Edit moment"
             title="Edit"
           >
@@ -229,11 +311,37 @@ export function EntryCard({ entry }: EntryCardProps) {
             </svg>
           </button>
         )}
+        {archived && (
+          <button
+            className="moments-entry-action-btn"
+            onClick={() => void handleRestore()}
+            aria-label="Restore moment to stream"
+            title="Restore to stream"
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <rect width="20" height="5" x="2" y="3" rx="1" />
+              <path d="M4 8v11a2 2 0 0 0 2 2h2" />
+              <path d="M20 8v11a2 2 0 0 1-2 2h-2" />
+              <path d="m9 15 3-3 3 3" />
+              <path d="M12 12v9" />
+            </svg>
+          </button>
+        )}
         <button
           className="moments-entry-action-btn is-danger"
           onClick={handleDelete}
-          aria-label="Delete moment"
-          title="Delete"
+          aria-label={archived ? "Delete moment permanently" : "Delete moment"}
+          title={archived ? "Delete permanently" : "Delete"}
         >
           <svg
             xmlns="http://www.w3.org/2000/svg"
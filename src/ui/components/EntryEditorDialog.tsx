@@ -0,0 +1,115 @@
+/**
+ * Entry Editor Dialog Component
+ *
+ * Content of the edit modal (see EntryEditModal): a roomy editor for the
+ * moment's text, its timestamp and explicit Save/Cancel buttons.
+ * Uses Obsidian's MarkdownEditor, so [[links]] and #tags autocomplete
+ * like in a note.
+ */
+
+import { EditorView, ViewUpdate } from "@codemirror/view";
+import { useRef, useState, useCallback, useEffect } from "preact/hooks";
+import type { MomentEntry } from "../../types";
+import { useStateManager } from "../context";
+import { ObsidianEditor, getEditorContent } from "./ObsidianEditor";
+import { TimestampPicker } from "./TimestampPicker";
+
+interface EntryEditorDialogProps {
+  entry: MomentEntry;
+  /** Called after the changes were saved (not when nothing was written) */
+  onSaved: () => void;
+  /** Called when Cancel is clicked */
+  onCancel: () => void;
+  /** Called when the form starts or stops holding unsaved changes */
+  onDirtyChange: (dirty: boolean) => void;
+}
+
+export function EntryEditorDialog({ entry, onSaved, onCancel, onDirtyChange }: EntryEditorDialogProps) {
+  const stateManager = useStateManager();
+  const editorRef = useRef<EditorView>();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Content and timestamp the edit started from
+  const [originalRaw] = useState(entry.raw);
+  const [originalCreatedAt] = useState(entry.createdAt);
+
+  const [content, setContent] = useState(entry.raw);
+  const [createdAt, setCreatedAt] = useState<number | null>(entry.createdAt);
+
+  const isDirty = content !== originalRaw || createdAt !== originalCreatedAt;
+  const canSave = !isSaving && createdAt !== null && content.trim().length > 0;
+
+  useEffect(() => {
+    onDirtyChange(isDirty);
+  }, [isDirty, onDirtyChange]);
+
+  const handleSave = useCallback(async () => {
+    const newContent = getEditorContent(editorRef.current);
+    if (!newContent.trim() || createdAt === null) return;
+
+    // The dialog stays open with the changes when they were not written
+    // (conflict declined, write refused, moment gone)
+    setIsSaving(true);
+    let saved = false;
+    try {
+      saved = await stateManager.updateEntry(
+        entry.id,
+        newContent,
+        originalRaw,
+        createdAt !== originalCreatedAt ? createdAt : undefined
+      );
+    } finally {
+      if (!saved) setIsSaving(false);
+    }
+    if (saved) onSaved();
+  }, [entry.id, originalRaw, originalCreatedAt, createdAt, stateManager, onSaved]);
+
+  const handleChange = useCallback((update: ViewUpdate) => {
+    if (update.docChanged) {
+      setContent(update.state.doc.toString());
+    }
+  }, []);
+
+  // Mod+Enter saves; Enter always adds a line (the dialog is for longer moments)
+  const handleEnter = useCallback(
+    (cm: EditorView, mod: boolean): boolean => {
+      if (!mod) return false;
+      if (canSave) void handleSave();
+      return true;
+    },
+    [canSave, handleSave]
+  );
+
+  return (
+    <div className="moments-editor-dialog">
+      <label className="moments-editor-timestamp">
+        <span className="moments-editor-timestamp-label">Timestamp</span>
+        <TimestampPicker value={createdAt} onChange={setCreatedAt} />
+      </label>
+      <ObsidianEditor
+        editorRef={editorRef}
+        className="moments-editor-textarea moments-editor-dialog-textarea"
+        value={entry.raw}
+        onEnter={handleEnter}
+        onChange={handleChange}
+        onSubmit={() => void handleSave()}
+      />
+      <div className="moments-editor-actions">
+        <button
+          className="moments-editor-btn moments-editor-btn-cancel"
+          onClick={onCancel}
+          disabled={isSaving}
+        >
+          Cancel
+        </button>
+        <button
+          className="moments-editor-btn moments-editor-btn-save mod-cta"
+          onClick={() => void handleSave()}
+          disabled={!canSave}
+        >
+          {isSaving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * Entry Editor Inline Component
  * 
- * Inline editor for editing moment entries.
+ * Inline editor for editing moment entries and their timestamp.
  * Uses Obsidian's MarkdownEditor for full autocomplete support.
  */
 
@@ -10,6 +10,7 @@ import { useRef, useState, useCallback, useEffect } from "preact/hooks";
 import type { MomentEntry } from "../../types";
 import { useStateManager, useSettings } from "../context";
 import { ObsidianEditor, getEditorContent, setEditorContent } from "./ObsidianEditor";
+import { TimestampPicker } from "./TimestampPicker";
 
 interface EntryEditorInlineProps {
   entry: MomentEntry;
@@ -21,6 +22,11 @@ export function EntryEditorInline({ entry, onClose }: EntryEditorInlineProps) {
   const settings = useSettings();
   const editorRef = useRef<EditorView>();
   const [isSaving, setIsSaving] = useState(false);
+  
+  // Content the edit started from, to detect changes made in the file meanwhile
+  const [originalRaw] = useState(entry.raw);
+  const [originalCreatedAt] = useState(entry.createdAt);
+  const [createdAt, setCreatedAt] = useState<number | null>(entry.createdAt);
 
   const handleSave = useCallback(async () => {
     const content = getEditorContent(editorRef.current)?.trim();
@@ -30,13 +36,17 @@ export function EntryEditorInline({ entry, onClose }: EntryEditorInlineProps) {
     }
 
     setIsSaving(true);
+    let saved = false;
     try {
-      await stateManager.updateEntry(entry.id, content);
-      onClose();
+      // A cleared timestamp keeps the original one
+      const newCreatedAt = createdAt !== null && createdAt !== originalCreatedAt ? createdAt : undefined;
+      saved = await stateManager.updateEntry(entry.id, content, originalRaw, newCreatedAt);
     } finally {
-      setIsSaving(false);
+      // A failed save keeps the editor open, so the edit is not lost
+      if (!saved) setIsSaving(false);
     }
-  }, [entry.id, stateManager, onClose]);
+    if (saved) onClose();
+  }, [entry.id, originalRaw, originalCreatedAt, createdAt, stateManager, onClose]);
 
   const handleCancel = useCallback(() => {
     onClose();
@@ -62,6 +72,7 @@ export function EntryEditorInline({ entry, onClose }: EntryEditorInlineProps) {
 
   return (
     <div className="moments-editor-inline">
+      <TimestampPicker value={createdAt} onChange={setCreatedAt} />
       <ObsidianEditor
         editorRef={editorRef}
         className="moments-editor-textarea"
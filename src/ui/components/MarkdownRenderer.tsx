@@ -8,17 +8,23 @@
  * 
  * Supports internal links, tags, embeds, and other Obsidian syntax.
  * Handles click events for links directly to ensure proper navigation.
+ * Search matches are highlighted in the rendered text.
  */
 
 import { useRef, useEffect } from "preact/hooks";
 import { MarkdownRenderer as ObsidianMarkdownRenderer, Component, getLinkpath, Keymap, Menu } from "obsidian";
-import { useApp, useMomentsContext } from "../context";
+import { useApp, useMomentsContext, useStateManager } from "../context";
+import { handleTagClick } from "../../helpers/renderMarkdown";
+import type { MomentsStateManager } from "../../state/MomentsStateManager";
+import { highlightMatches, type MatchRange } from "../../utils/markdown";
 
 interface MarkdownRendererProps {
   /** The markdown content to render */
   content: string;
   /** Optional CSS class name */
   className?: string;
+  /** Find the parts of a text to highlight (e.g. search matches) */
+  findMatches?: (text: string) => MatchRange[];
 }
 
 /**
@@ -61,7 +67,12 @@ function parseLink(el: HTMLElement): { href: string; displayText: string } | nul
  * Bind click handlers directly to links in the rendered markdown
  * This ensures clicks work properly even within Preact components
  */
-function bindLinkHandlers(containerEl: HTMLElement, app: any, sourcePath: string) {
+function bindLinkHandlers(
+  containerEl: HTMLElement,
+  app: any,
+  sourcePath: string,
+  stateManager: MomentsStateManager
+) {
   // Internal links
   const internalLinks = containerEl.findAll("a.internal-link");
   for (const link of internalLinks) {
@@ -162,7 +173,7 @@ function bindLinkHandlers(containerEl: HTMLElement, app: any, sourcePath: string
     });
   }
   
-  // Tag links - open global search
+  // Tag links - filter the view (Mod-click opens global search)
   const tagLinks = containerEl.findAll("a.tag");
   for (const link of tagLinks) {
     link.addEventListener("click", (evt: MouseEvent) => {
@@ -171,19 +182,60 @@ function bindLinkHandlers(containerEl: HTMLElement, app: any, sourcePath: string
       evt.preventDefault();
       evt.stopPropagation();
       
-      const tag = link.getText();
-      const searchPlugin = (app as any).internalPlugins.getPluginById("global-search");
-      if (searchPlugin) {
-        searchPlugin.instance.openGlobalSearch(`tag:${tag}`);
-      }
+      handleTagClick(evt, link.getText(), app, stateManager);
     });
   }
 }
 
-export function MarkdownRenderer({ content, className }: MarkdownRendererProps) {
+/**
+ * Highlight matches in the text nodes of rendered markdown
+ * 
+ * Highlights of a previous call are removed first. Text of math and
+ * diagrams (SVG) is left alone.
+ */
+function highlightTextNodes(containerEl: HTMLElement, findMatches?: (text: string) => MatchRange[]) {
+  const marks = containerEl.findAll("mark.moments-highlight");
+  if (marks.length > 0) {
+    for (const mark of marks) {
+      mark.replaceWith(mark.getText());
+    }
+    containerEl.normalize();
+  }
+  if (!findMatches) return;
+  
+  const textNodes: Text[] = [];
+  const walker = document.createTreeWalker(containerEl, NodeFilter.SHOW_TEXT);
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+  
+  for (const node of textNodes) {
+    if (node.parentElement?.closest("svg, mjx-container, style, script")) continue;
+    
+    const ranges = findMatches(node.data);
+    if (ranges.length === 0) continue;
+    
+    const fragment = document.createDocumentFragment();
+    for (const segment of highlightMatches(node.data, ranges)) {
+      if (segment.highlighted) {
+        fragment.createEl("mark", { cls: "moments-highlight", text: segment.text });
+      } else {
+        fragment.appendText(segment.text);
+      }
+    }
+    node.replaceWith(fragment);
+  }
+}
+
+export function MarkdownRenderer({ content, className, findMatches }: MarkdownRendererProps) {
   const wrapperRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLElement | null>(null);
   const componentRef = useRef<Component | null>(null);
+  // Latest highlighter, applied once the asynchronous render finished
+  const findMatchesRef = useRef(findMatches);
+  findMatchesRef.current = findMatches;
   const app = useApp();
+  const stateManager = useStateManager();
   const { sourcePath } = useMomentsContext();
 
   useEffect(() => {
@@ -198,6 +250,7 @@ export function MarkdownRenderer({ content, className }: MarkdownRendererProps)
     const containerEl = wrapper.createDiv(
       "markdown-preview-view markdown-rendered moments-markdown-preview-view"
     );
+    containerRef.current = containerEl;
 
     // Create a component for lifecycle management
     const component = new Component();
@@ -216,15 +269,24 @@ export function MarkdownRenderer({ content, className }: MarkdownRendererProps)
       resolveLinks(containerEl, app, sourcePath);
       applyCheckboxIndexes(containerEl);
       // Bind click handlers directly to links
-      bindLinkHandlers(containerEl, app, sourcePath);
+      bindLinkHandlers(containerEl, app, sourcePath, stateManager);
+      highlightTextNodes(containerEl, findMatchesRef.current);
     });
 
     // Cleanup
     return () => {
       component.unload();
       componentRef.current = null;
+      containerRef.current = null;
     };
-  }, [content, app, sourcePath]);
+  }, [content, app, sourcePath, stateManager]);
+
+  // Update the highlights when the search changes
+  useEffect(() => {
+    if (containerRef.current) {
+      highlightTextNodes(containerRef.current, findMatches);
+    }
+  }, [findMatches]);
 
   return (
     <div
@@ -0,0 +1,140 @@
+/**
+ * Saved Views Menu Component
+ *
+ * Dropdown of the saved views (named search queries and tag
+ * selections, kept in the plugin settings). Picking a view applies its
+ * filters; the menu also saves the current filters as a new view and
+ * deletes the view shown. Each view also has a command opening it
+ * (see registerSavedViewCommands).
+ */
+
+import { useEffect, useState, useCallback } from "preact/hooks";
+import { Menu } from "obsidian";
+import type { SavedView } from "../../settings";
+import type { TagFilter } from "../../types";
+import { useApp, usePlugin, useSettings, useStateManager } from "../context";
+import { SaveViewModal } from "../modals/SaveViewModal";
+
+/**
+ * Check if a saved view has the given filters
+ */
+function hasFilters(view: SavedView, query: string, tagFilter: TagFilter): boolean {
+  const sameTags = view.tagFilter.tags.length === tagFilter.tags.length &&
+    view.tagFilter.tags.every(tag => tagFilter.tags.includes(tag));
+  // The mode only matters when several tags are selected
+  const sameMode = tagFilter.tags.length < 2 || view.tagFilter.mode === tagFilter.mode;
+  return view.query.trim() === query.trim() && sameTags && sameMode;
+}
+
+export function SavedViewsMenu() {
+  const app = useApp();
+  const plugin = usePlugin();
+  const settings = useSettings();
+  const stateManager = useStateManager();
+  const [filters, setFilters] = useState({
+    query: stateManager.getSearchQuery(),
+    tagFilter: stateManager.getTagFilter(),
+  });
+
+  // Follow the filters to show the view they match
+  useEffect(() => {
+    const update = () => {
+      setFilters({ query: stateManager.getSearchQuery(), tagFilter: stateManager.getTagFilter() });
+    };
+    update();
+    return stateManager.subscribe(update);
+  }, [stateManager]);
+
+  const views = settings.savedViews;
+  const activeView = views.find(view => hasFilters(view, filters.query, filters.tagFilter)) ?? null;
+  const isFiltered = filters.query.trim().length > 0 || filters.tagFilter.tags.length > 0;
+
+  const saveCurrentView = useCallback(() => {
+    new SaveViewModal(app, (name) => {
+      const view: SavedView = {
+        id: Date.now().toString(36),
+        name,
+        query: stateManager.getSearchQuery().trim(),
+        tagFilter: { ...stateManager.getTagFilter() },
+      };
+      plugin.settings.savedViews = [...plugin.settings.savedViews, view];
+      void plugin.saveSettings();
+    }).open();
+  }, [app, plugin, stateManager]);
+
+  const deleteView = useCallback((view: SavedView) => {
+    plugin.settings.savedViews = plugin.settings.savedViews.filter(v => v.id !== view.id);
+    void plugin.saveSettings();
+  }, [plugin]);
+
+  const handleClick = useCallback((e: MouseEvent) => {
+    const menu = new Menu();
+
+    for (const view of views) {
+      menu.addItem((item) => {
+        item
+          .setTitle(view.name)
+          .setChecked(view === activeView)
+          .onClick(() => {
+            stateManager.setFilters(view.query, view.tagFilter);
+          });
+      });
+    }
+
+    if (views.length > 0) menu.addSeparator();
+
+    menu.addItem((item) => {
+      item
+        .setIcon("lucide-bookmark-plus")
+        .setTitle("Save current filters as view…")
+        .setDisabled(!isFiltered || activeView !== null)
+        .onClick(saveCurrentView);
+    });
+
+    if (activeView) {
+      menu.addItem((item) => {
+        item
+          .setIcon("lucide-trash-2")
+          .setTitle(`Delete view "${activeView.name}"`)
+          .onClick(() => deleteView(activeView));
+      });
+    }
+
+    if (isFiltered) {
+      menu.addItem((item) => {
+        item
+          .setIcon("lucide-filter-x")
+          .setTitle("Clear filters")
+          .onClick(() => {
+            stateManager.setFilters("", { tags: [], mode: filters.tagFilter.mode });
+          });
+      });
+    }
+
+    menu.showAtMouseEvent(e);
+  }, [views, activeView, isFiltered, filters.tagFilter.mode, saveCurrentView, deleteView, stateManager]);
+
+  return (
+    <button
+      className={activeView ? "moments-views-btn is-active" : "moments-views-btn"}
+      onClick={(e) => handleClick(e as unknown as MouseEvent)}
+      aria-label="Saved views"
+      title="Saved views"
+    >
+      <svg
+        xmlns="http://www.w3.org/2000/svg"
+        width="14"
+        height="14"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        <path d="m19 21-7-4-7 4V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2v16z" />
+      </svg>
+      <span className="moments-views-btn-label">{activeView ? activeView.name : "Views"}</span>
+    </button>
+  );
+}
@@ -2,24 +2,98 @@
  * Search Box Component
  * 
  * Filter entries by search query with debouncing.
+ * The query syntax (see utils/searchQuery) is checked as you type; a
+ * syntax error is shown below the box and underlined in the query.
+ * While a query is active the box counts the results; Enter and
+ * Shift+Enter (or the arrow buttons) step through them.
  */
 
 import { useRef, useState, useCallback, useEffect } from "preact/hooks";
 import { useSettings, useStateManager } from "../context";
 import { debounce } from "../../utils/debounce";
 
-export function SearchBox() {
+interface SearchBoxProps {
+  /** Number of results, shown while a query is active */
+  resultCount?: number;
+  /** Position of the selected result, or -1 if none is selected */
+  currentResult?: number;
+  /** Select the next (1) or previous (-1) result */
+  onNavigate?: (step: 1 | -1) => void;
+}
+
+/**
+ * Step through search results
+ *
+ * The selection is a new object on every step, so selecting the same
+ * result again (e.g. the only one) still scrolls to it. It is cleared
+ * when the query changes.
+ *
+ * @param keys - Keys of the results in display order
+ */
+export function useResultNavigation(keys: string[]) {
+  const stateManager = useStateManager();
+  const [current, setCurrent] = useState<{ key: string } | null>(null);
+  const query = stateManager.getSearchQuery();
+
+  useEffect(() => {
+    setCurrent(null);
+  }, [query]);
+
+  const currentIndex = current ? keys.indexOf(current.key) : -1;
+
+  const navigate = useCallback((step: 1 | -1) => {
+    if (keys.length === 0) return;
+    const index = currentIndex < 0
+      ? (step > 0 ? 0 : keys.length - 1)
+      : (currentIndex + step + keys.length) % keys.length;
+    const key = keys[index];
+    if (key !== undefined) setCurrent({ key });
+  }, [keys, currentIndex]);
+
+  return { current: currentIndex < 0 ? null : current, currentIndex, navigate };
+}
+
+/** Tooltip of the search box listing the query syntax */
+const SEARCH_SYNTAX_HINT =
+  "words, \"phrases\", /regex/, tag:#tag, before:/after:/on: YYYY-MM-DD|today|yesterday|-7d, last:7d, " +
+  "has:link|image|task|tag, links:[[Note]], key::value, -term, OR, ( )";
+
+export function SearchBox({ resultCount, currentResult = -1, onNavigate }: SearchBoxProps) {
   const settings = useSettings();
   const stateManager = useStateManager();
   const inputRef = useRef<HTMLInputElement>(null);
   const [value, setValue] = useState(stateManager.getSearchQuery());
+  const [error, setError] = useState(stateManager.getSearchError());
+  // Query the state manager had when the box last synced with it
+  const syncedQueryRef = useRef(stateManager.getSearchQuery());
+
+  // Follow the error of the query the state manager compiled, and
+  // queries set elsewhere (e.g. a saved view)
+  useEffect(() => {
+    const update = () => {
+      setError(stateManager.getSearchError());
+      const query = stateManager.getSearchQuery();
+      if (query !== syncedQueryRef.current) {
+        syncedQueryRef.current = query;
+        setValue(query);
+      }
+    };
+    update();
+    return stateManager.subscribe(update);
+  }, [stateManager]);
+
+  // Apply a query typed in the box (not synced back into it)
+  const applyQuery = useCallback((query: string) => {
+    syncedQueryRef.current = query;
+    stateManager.setSearchQuery(query);
+  }, [stateManager]);
 
   // Create debounced search function
   const debouncedSearch = useCallback(
     debounce((query: string) => {
-      stateManager.setSearchQuery(query);
+      applyQuery(query);
     }, settings.searchDebounceMs),
-    [stateManager, settings.searchDebounceMs]
+    [applyQuery, settings.searchDebounceMs]
   );
 
   // Cleanup debounce on unmount
@@ -41,70 +115,152 @@ export function SearchBox() {
 
   const handleClear = useCallback(() => {
     setValue("");
-    stateManager.setSearchQuery("");
+    debouncedSearch.cancel();
+    applyQuery("");
     inputRef.current?.focus();
-  }, [stateManager]);
+  }, [debouncedSearch, applyQuery]);
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (e.key === "Escape") {
       handleClear();
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (value !== stateManager.getSearchQuery()) {
+        // Search right away instead of stepping through stale results
+        debouncedSearch.cancel();
+        applyQuery(value);
+      } else {
+        onNavigate?.(e.shiftKey ? -1 : 1);
+      }
     }
-  }, [handleClear]);
+  }, [handleClear, value, stateManager, debouncedSearch, applyQuery, onNavigate]);
 
   if (!settings.showSearch) {
     return null;
   }
 
+  // The error belongs to the last compiled query, which may lag behind the input
+  const isCurrent = stateManager.getSearchQuery() === value;
+  const shownError = error && isCurrent ? error : null;
+  const showResults = resultCount !== undefined && isCurrent && !shownError && value.trim().length > 0;
+
   return (
-    <div className="moments-search-wrapper">
-      <svg
-        className="moments-search-icon"
-        xmlns="http://www.w3.org/2000/svg"
-        width="14"
-        height="14"
-        viewBox="0 0 24 24"
-        fill="none"
-        stroke="currentColor"
-        strokeWidth="2"
-        strokeLinecap="round"
-        strokeLinejoin="round"
-      >
-        <circle cx="11" cy="11" r="8" />
-        <path d="m21 21-4.3-4.3" />
-      </svg>
-      <input
-        ref={inputRef}
-        type="text"
-        className="moments-search-input"
-        placeholder="Search moments..."
-        value={value}
-        onInput={handleInput}
-        onKeyDown={handleKeyDown}
-      />
-      {value && (
-        <button
-          className="moments-search-clear"
-          onClick={handleClear}
-          aria-label="Clear search"
-          title="Clear"
+    <>
+      <div className={shownError ? "moments-search-wrapper has-error" : "moments-search-wrapper"}>
+        <svg
+          className="moments-search-icon"
+          xmlns="http://www.w3.org/2000/svg"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
         >
-          <svg
-            xmlns="http://www.w3.org/2000/svg"
-            width="14"
-            height="14"
-            viewBox="0 0 24 24"
-            fill="none"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
+          <circle cx="11" cy="11" r="8" />
+          <path d="m21 21-4.3-4.3" />
+        </svg>
+        <input
+          ref={inputRef}
+          type="text"
+          className="moments-search-input"
+          placeholder="Search moments..."
+          value={value}
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          aria-invalid={shownError !== null}
+          title={SEARCH_SYNTAX_HINT}
+        />
+        {showResults && (
+          <div className="moments-search-results">
+            <span className="moments-search-count" aria-live="polite">
+              {currentResult >= 0
+                ? `${currentResult + 1} of ${resultCount}`
+                : `${resultCount} ${resultCount === 1 ? "result" : "results"}`}
+            </span>
+            <button
+              className="moments-search-nav"
+              onClick={() => onNavigate?.(-1)}
+              disabled={resultCount === 0}
+              aria-label="Previous result"
+              title="Previous result (Shift+Enter)"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="m18 15-6-6-6 6" />
+              </svg>
+            </button>
+            <button
+              className="moments-search-nav"
+              onClick={() => onNavigate?.(1)}
+              disabled={resultCount === 0}
+              aria-label="Next result"
+              title="Next result (Enter)"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="14"
+                height="14"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              >
+                <path d="m6 9 6 6 6-6" />
+              </svg>
+            </button>
+          </div>
+        )}
+        {value && (
+          <button
+            className="moments-search-clear"
+            onClick={handleClear}
+            aria-label="Clear search"
+            title="Clear"
           >
-            <path d="M18 6 6 18" />
-            <path d="m6 6 12 12" />
-          </svg>
-        </button>
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              width="14"
+              height="14"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            >
+              <path d="M18 6 6 18" />
+              <path d="m6 6 12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+      {shownError && (
+        <div className="moments-search-error" role="alert">
+          <span className="moments-search-error-query">
+            {value.substring(0, shownError.start)}
+            <mark className="moments-search-error-mark">
+              {value.substring(shownError.start, shownError.end) || " "}
+            </mark>
+            {value.substring(shownError.end)}
+          </span>
+          <span className="moments-search-error-message">{shownError.message}</span>
+        </div>
       )}
-    </div>
+    </>
   );
 }
 
@@ -0,0 +1,207 @@
+/**
+ * Tag Facet Bar Component
+ *
+ * Lists the tags used in the stream (or the archive) with the number of
+ * moments having each. Nested tags (#proj/a) are shown as a tree under
+ * their parent, collapsed until expanded.
+ *
+ * Clicking a tag selects it to filter the view (see MomentsStateManager
+ * tag filter); Mod-click opens global search instead. With several tags
+ * selected, the moments need all of them (AND) or any of them (OR).
+ * The expanded tags are kept in the view state.
+ */
+
+import { useEffect, useState, useCallback, useMemo } from "preact/hooks";
+import type { MomentEntry, TagFilter } from "../../types";
+import { useApp, useSettings, useStateManager, useViewState } from "../context";
+import { buildTagTree, type TagNode } from "../../utils/tags";
+import { handleTagClick } from "../../helpers/renderMarkdown";
+
+interface TagFacetBarProps {
+  /** List the tags of the archive instead of the stream */
+  archived?: boolean;
+}
+
+interface TagTreeProps {
+  nodes: TagNode[];
+  selected: string[];
+  expanded: Set<string>;
+  onToggleExpanded: (tag: string) => void;
+  onTagClick: (e: MouseEvent, tag: string) => void;
+}
+
+/**
+ * One level of the tag tree
+ */
+function TagTree({ nodes, selected, expanded, onToggleExpanded, onTagClick }: TagTreeProps) {
+  return (
+    <ul className="moments-tag-tree">
+      {nodes.map((node) => {
+        const hasChildren = node.children.length > 0;
+        const isExpanded = expanded.has(node.tag);
+
+        return (
+          <li key={node.tag} className="moments-tag-tree-item">
+            <div className="moments-tag-facet-row">
+              {hasChildren ? (
+                <button
+                  className={isExpanded ? "moments-tag-facet-toggle" : "moments-tag-facet-toggle is-collapsed"}
+                  onClick={() => onToggleExpanded(node.tag)}
+                  aria-expanded={isExpanded}
+                  aria-label={isExpanded ? `Collapse ${node.tag}` : `Expand ${node.tag}`}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="12"
+                    height="12"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d={isExpanded ? "m6 9 6 6 6-6" : "m9 18 6-6-6-6"} />
+                  </svg>
+                </button>
+              ) : (
+                <span className="moments-tag-facet-toggle-spacer" />
+              )}
+              <button
+                className={selected.includes(node.tag) ? "moments-tag-facet is-active" : "moments-tag-facet"}
+                onClick={(e) => onTagClick(e as unknown as MouseEvent, node.tag)}
+                aria-pressed={selected.includes(node.tag)}
+                title={`${node.tag} (Mod-click to open in search)`}
+              >
+                <span className="moments-tag-facet-name">#{node.name}</span>
+                <span className="moments-tag-facet-count">{node.count}</span>
+              </button>
+            </div>
+            {hasChildren && isExpanded && (
+              <TagTree
+                nodes={node.children}
+                selected={selected}
+                expanded={expanded}
+                onToggleExpanded={onToggleExpanded}
+                onTagClick={onTagClick}
+              />
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export function TagFacetBar({ archived }: TagFacetBarProps) {
+  const app = useApp();
+  const settings = useSettings();
+  const stateManager = useStateManager();
+  const [entries, setEntries] = useState<MomentEntry[]>([]);
+  const [filter, setFilter] = useState<TagFilter>(stateManager.getTagFilter());
+  const { getViewState, updateViewState } = useViewState();
+  // Tags whose nested tags are shown
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(getViewState().expandedTags));
+
+  // Subscribe to state changes (tags are counted over all moments, not the filtered ones)
+  useEffect(() => {
+    const update = () => {
+      setEntries(archived ? stateManager.getArchivedEntries() : stateManager.getAllEntries());
+      setFilter(stateManager.getTagFilter());
+    };
+    update();
+
+    const unsubscribe = stateManager.subscribe(update);
+
+    return unsubscribe;
+  }, [stateManager, archived]);
+
+  const tree = useMemo(() => buildTagTree(entries), [entries]);
+
+  // Show newly selected nested tags by expanding their parents
+  useEffect(() => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      for (const tag of filter.tags) {
+        const parts = tag.split("/");
+        for (let i = 1; i < parts.length; i++) {
+          next.add(parts.slice(0, i).join("/"));
+        }
+      }
+      return next.size === prev.size ? prev : next;
+    });
+  }, [filter.tags]);
+
+  // Keep the expanded tags in the view state
+  useEffect(() => {
+    const expandedTags = [...expanded].sort();
+    if (expandedTags.join() !== getViewState().expandedTags.join()) {
+      updateViewState({ expandedTags });
+    }
+  }, [expanded, getViewState, updateViewState]);
+
+  const toggleExpanded = useCallback((tag: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(tag)) next.add(tag);
+      return next;
+    });
+  }, []);
+
+  const onTagClick = useCallback((e: MouseEvent, tag: string) => {
+    handleTagClick(e, tag, app, stateManager);
+  }, [app, stateManager]);
+
+  const toggleMode = useCallback(() => {
+    stateManager.setTagFilterMode(filter.mode === "and" ? "or" : "and");
+  }, [stateManager, filter.mode]);
+
+  // Selected tags no moment has any more are still shown, so they can be cleared
+  if (!settings.showTagBar || (tree.length === 0 && filter.tags.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="moments-tag-bar">
+      {filter.tags.length > 0 && (
+        <div className="moments-tag-bar-header">
+          <span className="moments-tag-bar-selection">
+            {filter.tags.map((tag) => (
+              <button
+                key={tag}
+                className="moments-tag-bar-selected"
+                onClick={() => stateManager.toggleTagFilter(tag)}
+                aria-label={`Deselect ${tag}`}
+                title="Deselect"
+              >
+                {tag} ×
+              </button>
+            ))}
+          </span>
+          {filter.tags.length > 1 && (
+            <button
+              className="moments-tag-bar-mode"
+              onClick={toggleMode}
+              title="Switch between moments with all selected tags and moments with any of them"
+            >
+              {filter.mode === "and" ? "All (AND)" : "Any (OR)"}
+            </button>
+          )}
+          <button
+            className="moments-tag-bar-clear"
+            onClick={() => stateManager.clearTagFilter()}
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      <TagTree
+        nodes={tree}
+        selected={filter.tags}
+        expanded={expanded}
+        onToggleExpanded={toggleExpanded}
+        onTagClick={onTagClick}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Timestamp Picker Component
+ *
+ * Date and time picker for an entry's timestamp (minute precision).
+ */
+
+import { moment } from "obsidian";
+
+/** Value format of a datetime-local input */
+const PICKER_FORMAT = "YYYY-MM-DDTHH:mm";
+
+interface TimestampPickerProps {
+  /** Selected time in epoch milliseconds, or null if the field is empty or invalid */
+  value: number | null;
+  /** Called with the new time (null if the field was cleared) */
+  onChange: (value: number | null) => void;
+  /** Optional CSS class name */
+  className?: string;
+}
+
+export function TimestampPicker({ value, onChange, className }: TimestampPickerProps) {
+  const handleInput = (e: Event) => {
+    const parsed = moment((e.target as HTMLInputElement).value, PICKER_FORMAT, true);
+    onChange(parsed.isValid() ? parsed.valueOf() : null);
+  };
+
+  return (
+    <input
+      type="datetime-local"
+      className={`moments-timestamp-picker ${className || ""}`}
+      value={value === null ? "" : moment(value).format(PICKER_FORMAT)}
+      onInput={handleInput}
+      aria-label="Timestamp"
+    />
+  );
+}
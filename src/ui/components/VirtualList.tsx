@@ -0,0 +1,378 @@
+/**
+ * Virtual List Component
+ *
+ * Renders only the items in and near the visible part of a long list.
+ * The space of the items above and below is kept as padding, so the
+ * scrollbar covers the whole list.
+ *
+ * Item heights vary (Markdown, images, embeds) and are only known after
+ * rendering. Each rendered item is measured with a ResizeObserver, so
+ * heights that change later (e.g. an image finishing loading) are picked
+ * up too. Items never rendered count with an estimated height.
+ *
+ * An active item (e.g. the selected search result) is marked and
+ * scrolled into view. An item being edited stays rendered while
+ * scrolled away, so the edit is not lost.
+ *
+ * The scroll position is reported as an anchor (the item at the top of
+ * the visible part and the distance scrolled past its top), which stays
+ * valid while heights are still estimated. A list shown with an initial
+ * anchor scrolls back to it and keeps it in place while the items around
+ * it are measured, until the user scrolls.
+ */
+
+import type { ComponentChildren } from "preact";
+import { useRef, useState, useEffect, useLayoutEffect, useMemo } from "preact/hooks";
+
+/**
+ * Scroll position of a list relative to one of its items
+ */
+export interface ScrollAnchor {
+  /** Key of the item at the top of the visible part */
+  key: string;
+  /** Distance from the top of the item to the top of the visible part (px) */
+  offset: number;
+}
+
+/** Time after showing the list during which the initial anchor is kept in place (ms) */
+const RESTORE_TIMEOUT_MS = 1500;
+
+/** Key of the gap between the range and a focused item rendered on its own */
+const GAP_KEY = "\u0000gap";
+
+interface VirtualListProps<T> {
+  /** Items to display */
+  items: T[];
+  /** Stable key of an item */
+  getKey: (item: T) => string;
+  /** Render a single item */
+  renderItem: (item: T) => ComponentChildren;
+  /** Height assumed for items not measured yet (px) */
+  estimatedHeight?: number;
+  /** Extra height rendered above and below the visible part (px) */
+  overscan?: number;
+  /** Optional CSS class name of the list element */
+  className?: string;
+  /** Item to mark and scroll into view; a new object scrolls again */
+  activeItem?: { key: string } | null;
+  /** Scroll position to restore when the list is shown */
+  initialAnchor?: ScrollAnchor | null;
+  /** Called when the scroll position changes (null for an empty list) */
+  onAnchorChange?: (anchor: ScrollAnchor | null) => void;
+}
+
+/**
+ * Find the nearest ancestor that scrolls vertically
+ */
+function getScrollParent(el: HTMLElement): HTMLElement | null {
+  let parent = el.parentElement;
+  while (parent) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === "auto" || overflowY === "scroll") return parent;
+    parent = parent.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Find the first item that ends below the given position
+ *
+ * @param offsets - Top offset of each item, followed by the total height
+ */
+function findIndex(offsets: number[], position: number): number {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if ((offsets[mid + 1] ?? 0) <= position) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Find the rendered element of an item
+ */
+function findItemElement(listEl: HTMLElement, key: string): HTMLElement | null {
+  const children = Array.from(listEl.children) as HTMLElement[];
+  return children.find(child => child.dataset.key === key) ?? null;
+}
+
+export function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedHeight = 120,
+  overscan = 800,
+  className,
+  activeItem,
+  initialAnchor,
+  onAnchorChange,
+}: VirtualListProps<T>) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const scrollElRef = useRef<HTMLElement | null>(null);
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observedRef = useRef<Set<Element>>(new Set());
+  const heightsRef = useRef<Map<string, number>>(new Map());
+  // Visible part of the list, relative to its top (px)
+  const [viewport, setViewport] = useState({ top: 0, height: 0 });
+  // Bumped whenever a measured height changes
+  const [measureVersion, setMeasureVersion] = useState(0);
+  // Item being edited, kept rendered while scrolled away
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  // Active item to scroll into view once it is rendered
+  const pendingScrollRef = useRef<string | null>(null);
+  // Scroll position being restored
+  const restoreRef = useRef<ScrollAnchor | null>(initialAnchor ?? null);
+  // Last reported scroll position
+  const reportedRef = useRef<ScrollAnchor | null>(initialAnchor ?? null);
+  const onAnchorChangeRef = useRef(onAnchorChange);
+  onAnchorChangeRef.current = onAnchorChange;
+
+  // Follow scrolling and resizing of the scroll container
+  useEffect(() => {
+    const listEl = listRef.current;
+    const scrollEl = listEl && getScrollParent(listEl);
+    scrollElRef.current = scrollEl;
+    if (!listEl || !scrollEl) return;
+
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const top = scrollEl.getBoundingClientRect().top - listEl.getBoundingClientRect().top;
+      const height = scrollEl.clientHeight;
+      setViewport(prev => (prev.top === top && prev.height === height) ? prev : { top, height });
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    scrollEl.addEventListener("scroll", schedule, { passive: true });
+    const resizeObserver = new ResizeObserver(schedule);
+    resizeObserver.observe(scrollEl);
+    resizeObserver.observe(listEl);
+
+    // Stop restoring the scroll position once the user scrolls or types
+    const stopRestoring = () => {
+      restoreRef.current = null;
+    };
+    const interactions = ["wheel", "touchstart", "pointerdown", "keydown"];
+    for (const type of interactions) {
+      scrollEl.addEventListener(type, stopRestoring, { passive: true });
+    }
+    const restoreTimer = window.setTimeout(stopRestoring, RESTORE_TIMEOUT_MS);
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      scrollEl.removeEventListener("scroll", schedule);
+      resizeObserver.disconnect();
+      for (const type of interactions) {
+        scrollEl.removeEventListener(type, stopRestoring);
+      }
+      window.clearTimeout(restoreTimer);
+      scrollElRef.current = null;
+    };
+  }, []);
+
+  // Measure rendered items
+  useEffect(() => {
+    let frame = 0;
+    const observer = new ResizeObserver((observed) => {
+      let changed = false;
+      for (const { target } of observed) {
+        const key = (target as HTMLElement).dataset.key;
+        const height = (target as HTMLElement).offsetHeight;
+        if (key === undefined || height === 0 || heightsRef.current.get(key) === height) continue;
+        heightsRef.current.set(key, height);
+        changed = true;
+      }
+      if (changed && !frame) {
+        frame = requestAnimationFrame(() => {
+          frame = 0;
+          setMeasureVersion(v => v + 1);
+        });
+      }
+    });
+    observerRef.current = observer;
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      observer.disconnect();
+      observerRef.current = null;
+      observedRef.current.clear();
+    };
+  }, []);
+
+  // Offset of each item, followed by the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, i) => {
+      result[i + 1] = (result[i] ?? 0) + (heightsRef.current.get(getKey(item)) ?? estimatedHeight);
+    });
+    return result;
+  }, [items, getKey, estimatedHeight, measureVersion]);
+
+  const start = findIndex(offsets, viewport.top - overscan);
+  const end = Math.min(items.length, findIndex(offsets, viewport.top + viewport.height + overscan) + 1);
+
+  // The focused item scrolled out of the range is rendered on its own,
+  // with the space between it and the range kept as a gap
+  const focusedIndex = focusedKey === null ? -1 : items.findIndex(item => getKey(item) === focusedKey);
+  const focusedBefore = focusedIndex >= 0 && focusedIndex < start;
+  const focusedAfter = focusedIndex >= end;
+  const focusedItem = focusedBefore || focusedAfter ? items[focusedIndex] : undefined;
+
+  const activeKey = activeItem?.key ?? null;
+  const activeIndex = activeKey === null ? -1 : items.findIndex(item => getKey(item) === activeKey);
+
+  const total = offsets[items.length] ?? 0;
+  const paddingTop = offsets[focusedBefore ? focusedIndex : start] ?? 0;
+  const paddingBottom = total - (offsets[focusedAfter ? focusedIndex + 1 : end] ?? total);
+  const gap = focusedBefore
+    ? (offsets[start] ?? 0) - (offsets[focusedIndex + 1] ?? 0)
+    : (offsets[focusedIndex] ?? 0) - (offsets[end] ?? 0);
+
+  /**
+   * Scroll so the restored anchor item is where it was
+   *
+   * Jumps to the item's estimated position while it is not rendered;
+   * once rendered, corrects by its actual position.
+   */
+  const restoreAnchor = () => {
+    const anchor = restoreRef.current;
+    const listEl = listRef.current;
+    const scrollEl = scrollElRef.current;
+    if (!anchor || !listEl || !scrollEl) return;
+
+    const index = items.findIndex(item => getKey(item) === anchor.key);
+    if (index < 0) {
+      restoreRef.current = null;
+      return;
+    }
+
+    const scrollTop = scrollEl.getBoundingClientRect().top;
+    const itemEl = findItemElement(listEl, anchor.key);
+    const itemTop = itemEl
+      ? itemEl.getBoundingClientRect().top
+      : listEl.getBoundingClientRect().top + (offsets[index] ?? 0);
+    const delta = itemTop - scrollTop + anchor.offset;
+    if (Math.abs(delta) >= 1) {
+      scrollEl.scrollTop += delta;
+    }
+  };
+
+  // Report the scroll position (not while restoring one)
+  useEffect(() => {
+    if (restoreRef.current || !scrollElRef.current) return;
+
+    let anchor: ScrollAnchor | null = null;
+    if (items.length > 0) {
+      const index = findIndex(offsets, viewport.top);
+      const item = items[index];
+      if (item !== undefined) {
+        anchor = { key: getKey(item), offset: Math.round(viewport.top - (offsets[index] ?? 0)) };
+      }
+    }
+
+    const reported = reportedRef.current;
+    if (anchor?.key === reported?.key && anchor?.offset === reported?.offset) return;
+    reportedRef.current = anchor;
+    onAnchorChangeRef.current?.(anchor);
+  }, [viewport, offsets, items, getKey]);
+
+  // Observe the items rendered now and stop observing removed ones
+  useLayoutEffect(() => {
+    const observer = observerRef.current;
+    if (!observer || !listRef.current) return;
+    const rendered = new Set(Array.from(listRef.current.children));
+    for (const el of observedRef.current) {
+      if (!rendered.has(el)) observer.unobserve(el);
+    }
+    for (const el of rendered) {
+      if (!observedRef.current.has(el)) observer.observe(el);
+    }
+    observedRef.current = rendered;
+
+    restoreAnchor();
+
+    const pendingKey = pendingScrollRef.current;
+    if (pendingKey !== null) {
+      const itemEl = findItemElement(listRef.current, pendingKey);
+      if (itemEl) {
+        pendingScrollRef.current = null;
+        itemEl.scrollIntoView({ block: "center" });
+      }
+    }
+  });
+
+  // Scroll to a new active item (or one that just appeared, e.g. in an expanded group)
+  useEffect(() => {
+    const listEl = listRef.current;
+    const scrollEl = listEl && getScrollParent(listEl);
+    if (!activeItem || activeIndex < 0 || !listEl || !scrollEl) return;
+
+    // Scrolling to the active item ends restoring a scroll position
+    restoreRef.current = null;
+
+    const itemEl = findItemElement(listEl, activeItem.key);
+    if (itemEl) {
+      itemEl.scrollIntoView({ block: "center" });
+      return;
+    }
+
+    // Not rendered: scroll to its estimated position, then into view once rendered
+    pendingScrollRef.current = activeItem.key;
+    const listTop = listEl.getBoundingClientRect().top - scrollEl.getBoundingClientRect().top + scrollEl.scrollTop;
+    scrollEl.scrollTop = listTop + (offsets[activeIndex] ?? 0) - scrollEl.clientHeight / 2;
+  }, [activeItem, activeIndex >= 0]);
+
+  const handleFocusIn = (e: FocusEvent) => {
+    // Only an item with an open editor is kept; focusing e.g. a button of a card is not
+    const itemEl = (e.target as HTMLElement).closest<HTMLElement>("[data-key]");
+    const editing = itemEl?.querySelector(".cm-editor") ? itemEl : null;
+    setFocusedKey(editing?.dataset.key ?? null);
+  };
+
+  const handleFocusOut = (e: FocusEvent) => {
+    // Switching to another window keeps the item, so an edit is not lost
+    const next = e.relatedTarget as Node | null;
+    if (next ? !listRef.current?.contains(next) : document.hasFocus()) {
+      setFocusedKey(null);
+    }
+  };
+
+  const renderRow = (item: T) => {
+    const key = getKey(item);
+    return (
+      <div
+        key={key}
+        data-key={key}
+        className={key === activeKey ? "is-active" : undefined}
+        style={{ display: "flow-root" }}
+      >
+        {renderItem(item)}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      ref={listRef}
+      className={className}
+      style={{ paddingTop, paddingBottom }}
+      onFocusIn={handleFocusIn}
+      onFocusOut={handleFocusOut}
+    >
+      {focusedBefore && focusedItem !== undefined && renderRow(focusedItem)}
+      {focusedBefore && <div key={GAP_KEY} style={{ height: gap }} />}
+      {items.slice(start, end).map(renderRow)}
+      {focusedAfter && <div key={GAP_KEY} style={{ height: gap }} />}
+      {focusedAfter && focusedItem !== undefined && renderRow(focusedItem)}
+    </div>
+  );
+}
@@ -5,11 +5,13 @@
  */
 
 import { createContext } from "preact";
-import { useContext } from "preact/hooks";
+import { useContext, useCallback } from "preact/hooks";
 import type { MomentsStateManager } from "../state/MomentsStateManager";
 import type { MomentsSettings } from "../settings";
 import type { App } from "obsidian";
 import type MomentsPlugin from "../main";
+import type { MomentsTab, MomentsViewState } from "../view/MomentsViewTypes";
+import type { ScrollAnchor } from "./components/VirtualList";
 
 /**
  * Context value interface
@@ -29,6 +31,12 @@ export interface MomentsContextValue {
   
   /** Plugin instance (for MarkdownEditor access) */
   plugin: MomentsPlugin;
+  
+  /** Current state of the view saved with the layout (tab, scroll, expanded groups) */
+  getViewState: () => MomentsViewState;
+  
+  /** Update the state of the view saved with the layout */
+  updateViewState: (patch: Partial<MomentsViewState>) => void;
 }
 
 /**
@@ -77,3 +85,35 @@ export function useApp(): App {
 export function usePlugin(): MomentsPlugin {
   return useMomentsContext().plugin;
 }
+
+/**
+ * Hook to access the state of the view saved with the layout
+ */
+export function useViewState(): Pick<MomentsContextValue, "getViewState" | "updateViewState"> {
+  const { getViewState, updateViewState } = useMomentsContext();
+  return { getViewState, updateViewState };
+}
+
+/**
+ * Hook to keep the scroll position of a tab's list in the view state
+ *
+ * @returns Props for the tab's VirtualList
+ */
+export function useSavedScroll(tab: MomentsTab): {
+  initialAnchor: ScrollAnchor | null;
+  onAnchorChange: (anchor: ScrollAnchor | null) => void;
+} {
+  const { getViewState, updateViewState } = useViewState();
+
+  const onAnchorChange = useCallback((anchor: ScrollAnchor | null) => {
+    const scroll = { ...getViewState().scroll };
+    if (anchor) {
+      scroll[tab] = anchor;
+    } else {
+      delete scroll[tab];
+    }
+    updateViewState({ scroll });
+  }, [getViewState, updateViewState, tab]);
+
+  return { initialAnchor: getViewState().scroll[tab] ?? null, onAnchorChange };
+}
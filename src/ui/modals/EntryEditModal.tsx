@@ -0,0 +1,131 @@
+/**
+ * Entry Edit Modal
+ *
+ * Edits a moment in a popup dialog (the "Modal" edit mode), which gives
+ * long multi-line moments more room than the inline card editor.
+ * Closing the dialog with unsaved changes (Escape, the close button or a
+ * click outside) asks before discarding them.
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import { render } from "preact";
+import type { MomentEntry } from "../../types";
+import { MomentsContext, type MomentsContextValue } from "../context";
+import { EntryEditorDialog } from "../components/EntryEditorDialog";
+
+/**
+ * Modal hosting the entry editor dialog
+ */
+export class EntryEditModal extends Modal {
+  private context: MomentsContextValue;
+  private entry: MomentEntry;
+  /** Whether the dialog holds unsaved changes */
+  private dirty = false;
+  /** Whether the discard question is showing */
+  private confirming = false;
+
+  constructor(context: MomentsContextValue, entry: MomentEntry) {
+    super(context.app);
+    this.context = context;
+    this.entry = entry;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Edit moment");
+    this.modalEl.addClass("moments-edit-modal");
+
+    render(
+      <MomentsContext.Provider value={this.context}>
+        <EntryEditorDialog
+          entry={this.entry}
+          onSaved={() => this.forceClose()}
+          onCancel={() => this.close()}
+          onDirtyChange={(dirty) => {
+            this.dirty = dirty;
+          }}
+        />
+      </MomentsContext.Provider>,
+      this.contentEl
+    );
+  }
+
+  /**
+   * Close the dialog, asking first if there are unsaved changes
+   */
+  close(): void {
+    if (!this.dirty) {
+      super.close();
+      return;
+    }
+    if (this.confirming) return;
+
+    this.confirming = true;
+    void confirmDiscardChanges(this.app).then((discard) => {
+      this.confirming = false;
+      if (discard) this.forceClose();
+    });
+  }
+
+  /**
+   * Close the dialog without asking
+   */
+  private forceClose(): void {
+    this.dirty = false;
+    super.close();
+  }
+
+  onClose(): void {
+    render(null, this.contentEl);
+    this.contentEl.empty();
+  }
+}
+
+/**
+ * Ask whether to discard the unsaved changes of an edit
+ *
+ * @returns True to discard them, false to keep editing
+ */
+function confirmDiscardChanges(app: App): Promise<boolean> {
+  return new Promise((resolve) => {
+    new DiscardChangesModal(app, resolve).open();
+  });
+}
+
+/**
+ * Modal asking before unsaved changes are discarded
+ */
+class DiscardChangesModal extends Modal {
+  private resolve: (discard: boolean) => void;
+  private discard = false;
+
+  constructor(app: App, resolve: (discard: boolean) => void) {
+    super(app);
+    this.resolve = resolve;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Discard changes?");
+    this.contentEl.createEl("p", { text: "This moment has changes that were not saved." });
+
+    new Setting(this.contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Keep editing")
+          .onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Discard")
+          .setWarning()
+          .onClick(() => {
+            this.discard = true;
+            this.close();
+          })
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolve(this.discard);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Moments Doctor Modal
+ *
+ * Lists the problems found while parsing a stream: invalid frontmatter,
+ * lines outside any entry, unparseable timestamps and missing or duplicate
+ * block ids. Every problem can be jumped to in the Markdown view, and block
+ * id problems can be fixed in one click.
+ */
+
+import { Modal, Notice, Setting } from "obsidian";
+import type MomentsPlugin from "../../main";
+import type { MomentsStateManager } from "../../state/MomentsStateManager";
+import type { MomentsParseError } from "../../types";
+import { getFileByPath } from "../../storage/momentsIO";
+
+/** Heading of each problem kind, in display order */
+const KIND_LABELS: Record<MomentsParseError["kind"], string> = {
+  frontmatter: "Invalid frontmatter",
+  orphan: "Lines outside any entry",
+  timestamp: "Unparseable timestamps",
+  duplicateId: "Duplicate block IDs",
+  missingId: "Missing block IDs",
+};
+
+/**
+ * Modal listing the diagnostics of a Moments stream
+ */
+export class MomentsDoctorModal extends Modal {
+  private plugin: MomentsPlugin;
+  private stateManager: MomentsStateManager;
+
+  constructor(plugin: MomentsPlugin, stateManager: MomentsStateManager) {
+    super(plugin.app);
+    this.plugin = plugin;
+    this.stateManager = stateManager;
+  }
+
+  onOpen(): void {
+    this.titleEl.setText("Check file");
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Render the problems grouped by kind
+   */
+  private render(): void {
+    const { contentEl } = this;
+    const errors = this.stateManager.getErrors();
+    contentEl.empty();
+
+    if (errors.length === 0) {
+      contentEl.createEl("p", { text: "No problems found." });
+      return;
+    }
+
+    const idProblems = errors.filter(e => e.kind === "missingId" || e.kind === "duplicateId").length;
+    if (idProblems > 0) {
+      new Setting(contentEl)
+        .setName("Repair block ids")
+        .setDesc("Write a new block ID to every entry that has none or shares one with an earlier entry")
+        .addButton((button) =>
+          button
+            .setButtonText("Repair")
+            .setCta()
+            .onClick(async () => {
+              button.setDisabled(true);
+              const count = await this.stateManager.repairBlockIds();
+              new Notice(`Moments: repaired ${count} block ${count === 1 ? "ID" : "IDs"}`);
+              this.render();
+            })
+        );
+    }
+
+    for (const kind of Object.keys(KIND_LABELS) as Array<MomentsParseError["kind"]>) {
+      const group = errors.filter(e => e.kind === kind);
+      if (group.length === 0) continue;
+
+      contentEl.createEl("h4", { text: `${KIND_LABELS[kind]} (${group.length})` });
+      const list = contentEl.createDiv({ cls: "moments-doctor-list" });
+
+      for (const error of group) {
+        this.renderError(list, error);
+      }
+    }
+  }
+
+  /**
+   * Render a single problem with its jump-to-line action
+   */
+  private renderError(containerEl: HTMLElement, error: MomentsParseError): void {
+    const location = error.line !== undefined ? `Line ${error.line + 1}` : "";
+    const file = error.path ? getFileByPath(this.app, error.path) : null;
+
+    const setting = new Setting(containerEl)
+      .setName(error.context ?? error.message)
+      .setDesc([error.path, location, error.context ? error.message : ""].filter(Boolean).join(" · "));
+
+    if (file) {
+      setting.addExtraButton((button) =>
+        button
+          .setIcon("lucide-external-link")
+          .setTooltip("Go to line")
+          .onClick(async () => {
+            this.close();
+            await this.plugin.openMarkdownAtLine(file, error.line ?? 0);
+          })
+      );
+    }
+  }
+}
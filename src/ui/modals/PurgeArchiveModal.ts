@@ -0,0 +1,86 @@
+/**
+ * Purge Archive Modal
+ *
+ * Permanently deletes the archived moments created more than a chosen
+ * number of days ago, after showing how many that are.
+ */
+
+import { App, ButtonComponent, Modal, Notice, Setting } from "obsidian";
+import type { MomentsStateManager } from "../../state/MomentsStateManager";
+
+/** Age (in days) suggested when the modal opens */
+const DEFAULT_PURGE_DAYS = 90;
+
+/**
+ * Modal choosing the age of archived moments to delete
+ */
+export class PurgeArchiveModal extends Modal {
+  private stateManager: MomentsStateManager;
+  /** Age entered (in days), or null while it is empty or not a number */
+  private days: number | null = DEFAULT_PURGE_DAYS;
+
+  constructor(app: App, stateManager: MomentsStateManager) {
+    super(app);
+    this.stateManager = stateManager;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.titleEl.setText("Purge archive");
+
+    let countEl: HTMLElement | null = null;
+    let purgeButton: ButtonComponent | null = null;
+
+    const updateCount = () => {
+      if (this.days === null) {
+        countEl?.setText("Enter a number of days.");
+        purgeButton?.setDisabled(true);
+        return;
+      }
+      const count = this.stateManager.getArchivedOlderThan(this.days).length;
+      countEl?.setText(`${count} archived ${count === 1 ? "moment" : "moments"} will be deleted permanently.`);
+      purgeButton?.setDisabled(count === 0);
+    };
+
+    new Setting(contentEl)
+      .setName("Older than (days)")
+      .setDesc("Archived moments created before this many days ago are deleted.")
+      .addText((text) =>
+        text
+          .setValue(String(this.days))
+          .onChange((value) => {
+            const num = Number(value.trim());
+            this.days = value.trim() && Number.isInteger(num) && num >= 0 ? num : null;
+            updateCount();
+          })
+      );
+
+    countEl = contentEl.createEl("p");
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Cancel")
+          .onClick(() => this.close())
+      )
+      .addButton((button) => {
+        purgeButton = button;
+        button
+          .setButtonText("Delete permanently")
+          .setWarning()
+          .onClick(async () => {
+            if (this.days === null) return;
+            button.setDisabled(true);
+            const purged = await this.stateManager.purgeArchive(this.days);
+            new Notice(`Moments: deleted ${purged} archived ${purged === 1 ? "moment" : "moments"}`);
+            this.close();
+          });
+      });
+
+    updateCount();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
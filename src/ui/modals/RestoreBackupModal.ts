@@ -0,0 +1,167 @@
+/**
+ * Restore Backup Modal
+ *
+ * Lists the snapshots taken before writes to a stream's files. A snapshot
+ * is compared entry by entry with the current file; single entries or the
+ * whole file can be restored from it.
+ */
+
+import { App, Modal, Notice, Setting, moment } from "obsidian";
+import type { MomentsStateManager } from "../../state/MomentsStateManager";
+import type { EntryChange, MomentEntry, MomentsSnapshot } from "../../types";
+
+/** Heading of each change kind, in display order */
+const KIND_LABELS: Record<EntryChange["kind"], string> = {
+  removed: "Deleted since",
+  changed: "Changed since",
+  added: "Added since",
+};
+
+/**
+ * Get the first line of an entry for a one-line summary
+ */
+function summarize(entry: MomentEntry | undefined): string {
+  return entry?.rawWithPrefix.split("\n")[0] ?? "";
+}
+
+/**
+ * Modal browsing and restoring the backup snapshots of a stream
+ */
+export class RestoreBackupModal extends Modal {
+  private stateManager: MomentsStateManager;
+
+  constructor(app: App, stateManager: MomentsStateManager) {
+    super(app);
+    this.stateManager = stateManager;
+  }
+
+  async onOpen(): Promise<void> {
+    this.titleEl.setText("Restore from backup");
+    await this.renderSnapshots();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Render the list of snapshots
+   */
+  private async renderSnapshots(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("p", { text: "Loading backups…" });
+
+    const snapshots = await this.stateManager.listSnapshots();
+    const multipleFiles = new Set(snapshots.map(s => s.sourcePath)).size > 1;
+    contentEl.empty();
+
+    if (snapshots.length === 0) {
+      contentEl.createEl("p", { text: "No backups yet. A snapshot is taken before the file is written." });
+      return;
+    }
+
+    for (const snapshot of snapshots) {
+      const setting = new Setting(contentEl)
+        .setName(moment(snapshot.createdAt).format("YYYY-MM-DD HH:mm:ss"))
+        .addButton((button) =>
+          button
+            .setButtonText("Compare")
+            .onClick(() => void this.renderSnapshot(snapshot))
+        );
+
+      if (multipleFiles) {
+        setting.setDesc(snapshot.sourcePath);
+      }
+    }
+  }
+
+  /**
+   * Render the differences between a snapshot and the current file
+   */
+  private async renderSnapshot(snapshot: MomentsSnapshot): Promise<void> {
+    const { contentEl } = this;
+    const time = moment(snapshot.createdAt).format("YYYY-MM-DD HH:mm:ss");
+    contentEl.empty();
+    contentEl.createEl("p", { text: "Comparing…" });
+
+    const changes = await this.stateManager.diffSnapshot(snapshot);
+    contentEl.empty();
+
+    new Setting(contentEl)
+      .setName(`Backup of ${time}`)
+      .setDesc(snapshot.sourcePath)
+      .addButton((button) =>
+        button
+          .setButtonText("Back")
+          .onClick(() => void this.renderSnapshots())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Restore whole file")
+          .setWarning()
+          .setDisabled(!changes || changes.length === 0)
+          .onClick(async () => {
+            button.setDisabled(true);
+            const restored = await this.stateManager.restoreSnapshot(snapshot);
+            new Notice(restored ? `Moments: restored the backup of ${time}` : "Moments: could not restore the backup");
+            this.close();
+          })
+      );
+
+    if (!changes) {
+      contentEl.createEl("p", { text: "This backup could not be read." });
+      return;
+    }
+
+    if (changes.length === 0) {
+      contentEl.createEl("p", { text: "No moments changed since this backup." });
+      return;
+    }
+
+    for (const kind of Object.keys(KIND_LABELS) as Array<EntryChange["kind"]>) {
+      const group = changes.filter(c => c.kind === kind);
+      if (group.length === 0) continue;
+
+      contentEl.createEl("h4", { text: `${KIND_LABELS[kind]} (${group.length})` });
+      const list = contentEl.createDiv({ cls: "moments-backup-list" });
+
+      for (const change of group) {
+        this.renderChange(list, snapshot, change);
+      }
+    }
+  }
+
+  /**
+   * Render a single changed entry with its restore action
+   *
+   * Entries added since the backup have nothing to restore; they are
+   * only removed by restoring the whole file.
+   */
+  private renderChange(containerEl: HTMLElement, snapshot: MomentsSnapshot, change: EntryChange): void {
+    const setting = new Setting(containerEl)
+      .setName(summarize(change.before ?? change.after));
+
+    if (change.kind === "changed") {
+      const moved = change.archivedBefore !== change.archivedAfter;
+      setting.setDesc(moved
+        ? (change.archivedAfter ? "Archived since" : "Restored from the archive since")
+        : `Now: ${summarize(change.after)}`);
+    }
+
+    if (change.kind === "added") return;
+
+    setting.addButton((button) =>
+      button
+        .setButtonText("Restore")
+        .onClick(async () => {
+          button.setDisabled(true);
+          const restored = await this.stateManager.restoreSnapshot(snapshot, [change.id]);
+          if (!restored) {
+            new Notice("Moments: could not restore the moment");
+          }
+          await this.renderSnapshot(snapshot);
+        })
+    );
+  }
+}
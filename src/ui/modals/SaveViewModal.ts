@@ -0,0 +1,73 @@
+/**
+ * Save View Modal
+ *
+ * Asks for the name of a new saved view (the current search query and
+ * tag selection).
+ */
+
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+
+/**
+ * Modal asking for the name of a saved view
+ */
+export class SaveViewModal extends Modal {
+  private onSave: (name: string) => void;
+  private name = "";
+
+  constructor(app: App, onSave: (name: string) => void) {
+    super(app);
+    this.onSave = onSave;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    this.titleEl.setText("Save view");
+
+    let saveButton: ButtonComponent | null = null;
+
+    const save = () => {
+      const name = this.name.trim();
+      if (!name) return;
+      this.onSave(name);
+      this.close();
+    };
+
+    new Setting(contentEl)
+      .setName("Name")
+      .setDesc("Shown in the views menu and as the command \"Open view: <name>\".")
+      .addText((text) => {
+        text
+          .setPlaceholder("Ideas this week")
+          .onChange((value) => {
+            this.name = value;
+            saveButton?.setDisabled(!value.trim());
+          });
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            save();
+          }
+        });
+        window.setTimeout(() => text.inputEl.focus(), 0);
+      });
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Cancel")
+          .onClick(() => this.close())
+      )
+      .addButton((button) => {
+        saveButton = button;
+        button
+          .setButtonText("Save")
+          .setCta()
+          .setDisabled(true)
+          .onClick(save);
+      });
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+}
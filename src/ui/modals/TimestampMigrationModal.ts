@@ -0,0 +1,85 @@
+/**
+ * Timestamp Migration Modal
+ *
+ * Previews and runs the rewrite of every entry's timestamp prefix to the
+ * current "Timestamp format" setting.
+ */
+
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { MomentsStateManager } from "../../state/MomentsStateManager";
+import type { TimestampMigrationPreview } from "../../types";
+
+/** Maximum number of unparseable entries listed in the preview */
+const MAX_LISTED_ENTRIES = 20;
+
+/**
+ * Modal showing how many entries a timestamp migration changes
+ */
+export class TimestampMigrationModal extends Modal {
+  private stateManager: MomentsStateManager;
+
+  constructor(app: App, stateManager: MomentsStateManager) {
+    super(app);
+    this.stateManager = stateManager;
+  }
+
+  async onOpen(): Promise<void> {
+    this.titleEl.setText("Migrate timestamps");
+    this.contentEl.createEl("p", { text: "Checking entries…" });
+
+    const preview = await this.stateManager.previewTimestampMigration();
+    this.renderPreview(preview);
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * Render the preview and the confirm button
+   */
+  private renderPreview(preview: TimestampMigrationPreview): void {
+    const { contentEl } = this;
+    const format = this.stateManager.getSettings().timestampFormat;
+    contentEl.empty();
+
+    contentEl.createEl("p", {
+      text: preview.changed === 0
+        ? `All entries already use the format "${format}".`
+        : `${preview.changed} ${preview.changed === 1 ? "entry" : "entries"} will be rewritten to the format "${format}".`,
+    });
+
+    if (preview.unparseable.length > 0) {
+      contentEl.createEl("p", {
+        text: `${preview.unparseable.length} ${preview.unparseable.length === 1 ? "entry has" : "entries have"} no timestamp in a known format and will be left unchanged:`,
+      });
+
+      const list = contentEl.createEl("ul", { cls: "moments-migration-unparseable" });
+      for (const entry of preview.unparseable.slice(0, MAX_LISTED_ENTRIES)) {
+        list.createEl("li", { text: entry.rawWithPrefix.split("\n")[0] ?? "" });
+      }
+      if (preview.unparseable.length > MAX_LISTED_ENTRIES) {
+        list.createEl("li", { text: `…and ${preview.unparseable.length - MAX_LISTED_ENTRIES} more` });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Cancel")
+          .onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText("Migrate")
+          .setCta()
+          .setDisabled(preview.changed === 0)
+          .onClick(async () => {
+            button.setDisabled(true);
+            const count = await this.stateManager.migrateTimestamps();
+            new Notice(`Moments: rewrote ${count} ${count === 1 ? "timestamp" : "timestamps"}`);
+            this.close();
+          })
+      );
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Write Conflict Modal
+ *
+ * Asks before a write overwrites a moment whose content changed in the
+ * file after the change was started (e.g. edited in another pane or synced
+ * from another device).
+ */
+
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * What the conflicting write is about to do
+ */
+export interface WriteConflict {
+  /** The pending operation */
+  action: "edit" | "delete";
+  /** Content of the moment currently in the file */
+  current: string;
+  /** Content about to be written (edits only) */
+  incoming?: string;
+}
+
+/**
+ * Ask whether to go ahead with a conflicting write
+ *
+ * @returns True to overwrite (or delete) anyway, false to keep the file as it is
+ */
+export function confirmWriteConflict(app: App, conflict: WriteConflict): Promise<boolean> {
+  return new Promise((resolve) => {
+    new WriteConflictModal(app, conflict, resolve).open();
+  });
+}
+
+/**
+ * Modal comparing the file's version of a moment with the pending change
+ */
+class WriteConflictModal extends Modal {
+  private conflict: WriteConflict;
+  private resolve: (confirmed: boolean) => void;
+  private confirmed = false;
+
+  constructor(app: App, conflict: WriteConflict, resolve: (confirmed: boolean) => void) {
+    super(app);
+    this.conflict = conflict;
+    this.resolve = resolve;
+  }
+
+  onOpen(): void {
+    const { contentEl, conflict } = this;
+    this.titleEl.setText("Moment changed in the file");
+
+    contentEl.createEl("p", {
+      text: conflict.action === "edit"
+        ? "This moment was changed in the file after you started editing it."
+        : "This moment was changed in the file since it was last shown.",
+    });
+
+    contentEl.createEl("h4", { text: "In the file" });
+    contentEl.createEl("pre", { cls: "moments-conflict-current", text: conflict.current });
+
+    if (conflict.incoming !== undefined) {
+      contentEl.createEl("h4", { text: "Your version" });
+      contentEl.createEl("pre", { cls: "moments-conflict-incoming", text: conflict.incoming });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button
+          .setButtonText("Keep file version")
+          .onClick(() => this.close())
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(conflict.action === "edit" ? "Overwrite" : "Delete anyway")
+          .setWarning()
+          .onClick(() => {
+            this.confirmed = true;
+            this.close();
+          })
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.resolve(this.confirmed);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Content Hash Utilities
+ *
+ * Cheap, non-cryptographic hash used to tell whether a file's content
+ * changed since it was last parsed.
+ */
+
+/**
+ * Hash a string (32-bit FNV-1a, plus the length to make collisions rarer)
+ *
+ * @param text - Text to hash
+ * @returns Hash as a short string
+ */
+export function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return `${(hash >>> 0).toString(16)}-${text.length}`;
+}
@@ -4,9 +4,17 @@
  * Helper functions for markdown processing and rendering.
  */
 
+import type { InlineFieldValue } from "../types";
+
 /** Tag regex: matches #tag format (Obsidian style) */
 const TAG_REGEX = /#[a-zA-Z0-9_\-/]+/g;
 
+/** Inline field on its own line: "key:: value" */
+const LINE_FIELD_REGEX = /^[ \t]*([a-zA-Z][\w -]*?)::[ \t]*(.*?)[ \t]*$/gm;
+
+/** Bracketed inline field inside text: "[key:: value]" or "(key:: value)" */
+const BRACKET_FIELD_REGEX = /\[([a-zA-Z][\w -]*?)::[ \t]*((?:\[\[[^\]]*\]\]|[^\]])*?)[ \t]*\]|\(([a-zA-Z][\w -]*?)::[ \t]*((?:\[\[[^\]]*\]\]|[^)])*?)[ \t]*\)/g;
+
 /**
  * Check if content contains any markdown syntax that needs rendering
  * 
@@ -65,6 +73,91 @@ export function extractTags(content: string): { tags: string[]; contentWithoutTa
   return { tags, contentWithoutTags };
 }
 
+/**
+ * Extract Dataview-style inline fields from content
+ * 
+ * Supports fields on their own line (`mood:: 4`) and bracketed fields
+ * inside text (`[project:: apollo]`, `(source:: [[Book]])`).
+ * Keys are lowercased; the first occurrence of a key wins.
+ * Returns both the fields and the content with the fields removed.
+ */
+export function extractInlineFields(content: string): {
+  fields: Record<string, InlineFieldValue>;
+  contentWithoutFields: string;
+} {
+  const fields: Record<string, InlineFieldValue> = {};
+  
+  const addField = (key: string | undefined, value: string | undefined) => {
+    if (!key) return;
+    const normalizedKey = key.trim().toLowerCase();
+    if (!(normalizedKey in fields)) {
+      fields[normalizedKey] = parseFieldValue(value ?? "");
+    }
+  };
+  
+  let contentWithoutFields = content.replace(
+    BRACKET_FIELD_REGEX,
+    (_match, squareKey?: string, squareValue?: string, roundKey?: string, roundValue?: string) => {
+      addField(squareKey ?? roundKey, squareValue ?? roundValue);
+      return "";
+    }
+  );
+  
+  contentWithoutFields = contentWithoutFields.replace(
+    LINE_FIELD_REGEX,
+    (_match, key: string, value: string) => {
+      addField(key, value);
+      return "";
+    }
+  );
+  
+  contentWithoutFields = contentWithoutFields
+    .replace(/\n\s*\n\s*\n/g, "\n\n") // Collapse multiple blank lines
+    .replace(/  +/g, " ") // Collapse multiple spaces
+    .trim();
+  
+  return { fields, contentWithoutFields };
+}
+
+/**
+ * Convert a raw field value to a typed value
+ */
+function parseFieldValue(value: string): InlineFieldValue {
+  const trimmed = value.trim();
+  
+  if (/^-?\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+  if (trimmed.toLowerCase() === "true") return true;
+  if (trimmed.toLowerCase() === "false") return false;
+  
+  return trimmed;
+}
+
+/**
+ * Check if an entry's fields match a field filter
+ * 
+ * An empty expected value only requires the field to exist. Strings match
+ * case-insensitively by substring; numbers and booleans must be equal.
+ * 
+ * @param fields - The entry's inline fields
+ * @param filter - Expected values (or predicates) keyed by field name
+ */
+export function matchesFieldFilter(
+  fields: Record<string, InlineFieldValue>,
+  filter: Record<string, InlineFieldValue | ((value: InlineFieldValue) => boolean)>
+): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    const value = fields[key.toLowerCase()];
+    if (value === undefined) return false;
+    
+    if (typeof expected === "function") return expected(value);
+    if (expected === "") return true;
+    if (typeof expected === "string") {
+      return String(value).toLowerCase().includes(expected.toLowerCase());
+    }
+    return value === expected;
+  });
+}
+
 /**
  * Check if content contains tags
  */
@@ -80,14 +173,54 @@ export function escapeRegex(str: string): string {
 }
 
 /**
- * Highlight search matches in text (for plain text content)
- * Returns HTML with <mark> tags around matches
+ * Part of a text matched by a search
  */
-export function highlightMatches(text: string, query: string): string {
-  if (!query) return text;
+export interface MatchRange {
+  /** Offset of the first matched character */
+  start: number;
+  /** Offset after the last matched character */
+  end: number;
+}
 
-  const escapedQuery = escapeRegex(query);
-  const regex = new RegExp(`(${escapedQuery})`, "gi");
-  return text.replace(regex, '<span class="moments-highlight">$1</span>');
+/**
+ * Piece of a text, highlighted or not
+ */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
 }
 
+/**
+ * Split text into highlighted and plain segments
+ * 
+ * Overlapping and adjacent ranges are merged into one highlight.
+ */
+export function highlightMatches(text: string, ranges: MatchRange[]): HighlightSegment[] {
+  const sorted = ranges
+    .filter(range => range.end > range.start)
+    .sort((a, b) => a.start - b.start);
+  
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  for (const range of sorted) {
+    const start = Math.max(range.start, position);
+    const end = Math.min(range.end, text.length);
+    if (end <= start) continue;
+    
+    if (start > position) {
+      segments.push({ text: text.substring(position, start), highlighted: false });
+    }
+    const last = segments[segments.length - 1];
+    if (last?.highlighted && start === position) {
+      last.text += text.substring(start, end);
+    } else {
+      segments.push({ text: text.substring(start, end), highlighted: true });
+    }
+    position = end;
+  }
+  if (position < text.length) {
+    segments.push({ text: text.substring(position), highlighted: false });
+  }
+  
+  return segments;
+}
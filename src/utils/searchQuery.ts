@@ -0,0 +1,784 @@
+/**
+ * Search Query Utilities
+ *
+ * Compiles a search query into a predicate over entries. A query is a
+ * list of terms that must all match; `OR` between terms matches either
+ * side and parentheses group terms.
+ *
+ * - `word` or `"quoted phrase"`: text in the entry (case-insensitive)
+ * - `/regex/`: regular expression on the entry text (case-insensitive)
+ * - `tag:#work`: tag (nested tags like #work/meeting included)
+ * - `before:`, `after:`, `on:` with a date (`2026-01-02`, `2026-01`,
+ *   `2026`, `today`, `yesterday` or a day back from today like `-7d`):
+ *   creation time
+ * - `last:7d` (also `w`, `m`, `y`): created within the last period
+ * - `has:link`, `has:image`, `has:task`, `has:tag`: content kinds
+ * - `links:[[Note]]`: link to a note
+ * - `key::value`: inline field (see matchesFieldFilter)
+ * - `-term`: negation
+ *
+ * In fuzzy mode a word also matches words it is close to (a typo away,
+ * or its letters in order, e.g. `mtng` for "meeting"), and matching
+ * entries are ranked by relevance and recency (see rank). Words inside a
+ * negation always match exactly.
+ *
+ * Text derived from an entry for matching (lowercased text, words, links)
+ * is cached per entry object, so a new query does not redo it; tags come
+ * from the tag bar's cache (see getEntryTags).
+ */
+
+import { moment } from "obsidian";
+import type { MomentEntry } from "../types";
+import { matchesFieldFilter, type MatchRange } from "./markdown";
+import { getEntryTags, isTagOrNested } from "./tags";
+
+/**
+ * Problem found in a search query
+ */
+export interface SearchQueryError {
+  message: string;
+  /** Offset of the offending part in the query */
+  start: number;
+  /** Offset after the offending part */
+  end: number;
+}
+
+/**
+ * Search query compiled into a predicate
+ */
+export interface CompiledSearchQuery {
+  /** The query as typed */
+  query: string;
+  /** Whether the query filters at all (false for an empty query) */
+  active: boolean;
+  /** Whether words match fuzzily */
+  fuzzy: boolean;
+  /** Check if an entry matches (matches everything when there is an error) */
+  matches: (entry: MomentEntry) => boolean;
+  /** Problem found, or null if the query is valid */
+  error: SearchQueryError | null;
+  /** Relevance of a matching entry (higher first), or null if results keep file order */
+  rank: ((entry: MomentEntry) => number) | null;
+  /** Find the parts of a text matched by the query's words, phrases and regexes */
+  findMatches: (text: string) => MatchRange[];
+}
+
+type Predicate = (entry: MomentEntry) => boolean;
+
+/**
+ * Word, phrase or regex of a query, used for ranking and highlighting
+ */
+interface TextTerm {
+  /** Relevance of an entry from 0 (no match) to 1 (exact word) */
+  score: (entry: MomentEntry) => number;
+  findMatches: (text: string) => MatchRange[];
+}
+
+/** Token of a search query */
+interface Token {
+  type: "term" | "phrase" | "regex" | "or" | "open" | "close";
+  /** Term text, phrase without quotes or regex source */
+  value: string;
+  /** Regex flags */
+  flags?: string;
+  /** Whether the token was prefixed with "-" */
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+/** Qualifiers understood in "key:value" terms */
+const QUALIFIERS = ["tag", "before", "after", "on", "last", "has", "links"];
+
+/** Values of the has: qualifier */
+const HAS_VALUES = ["link", "image", "task", "tag"];
+
+/** Date values of before:, after: and on:, with the period they cover */
+const DATE_FORMATS: Array<{ format: string; unit: "day" | "month" | "year" }> = [
+  { format: "YYYY-MM-DD", unit: "day" },
+  { format: "YYYY-MM", unit: "month" },
+  { format: "YYYY", unit: "year" },
+];
+
+/** Units of relative periods ("-7d", "last:2w") */
+const PERIOD_UNITS: Record<string, "day" | "week" | "month" | "year"> = { d: "day", w: "week", m: "month", y: "year" };
+
+/** Relative period: count and unit, e.g. "7d" */
+const PERIOD_REGEX = /^(\d+)([dwmy])$/i;
+
+/** Field term: "key::value" (value may be empty) */
+const FIELD_TERM_REGEX = /^([a-zA-Z][\w-]*)::(.*)$/;
+
+/** Qualifier term: "key:value" */
+const QUALIFIER_TERM_REGEX = /^([a-zA-Z]+):(.*)$/;
+
+const LINK_REGEX = /\[\[[^\]]+\]\]|\[[^\]]*\]\([^)]+\)|https?:\/\/\S+/;
+const IMAGE_REGEX = /!\[\[[^\]]+\.(?:png|jpe?g|gif|bmp|svg|webp|avif)(?:\|[^\]]*)?\]\]|!\[[^\]]*\]\([^)]+\)/i;
+const TASK_REGEX = /(?:^|\n)\s*(?:[-*+]\s+)?\[[ xX/-]\]\s/;
+const WIKILINK_REGEX = /!?\[\[([^\]|#^]+)(?:[#^|][^\]]*)?\]\]/g;
+const MARKDOWN_LINK_REGEX = /\[[^\]]*\]\(([^)\s]+)\)/g;
+
+/** Word of a text: a run of characters other than whitespace and ASCII punctuation */
+const WORD_REGEX = /[^\s\x21-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]+/g;
+
+/** Relevance of a word starting with a search word, and of one containing it */
+const PREFIX_SCORE = 0.9;
+const SUBSTRING_SCORE = 0.8;
+
+/** Relevance of a word one typo away from a search word (minus 0.1 per further typo) */
+const TYPO_SCORE = 0.7;
+
+/** Shortest search word matched by typos and letters in order */
+const FUZZY_MIN_LENGTH = 4;
+
+/** Weight of recency in the rank, next to a relevance of up to 1 */
+const RECENCY_WEIGHT = 0.25;
+
+/** Age (in days) at which the recency of an entry has halved */
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+/**
+ * Derived text of an entry used for matching
+ */
+interface SearchData {
+  /** Lowercased entry text including the timestamp prefix */
+  text: string;
+  /** Distinct lowercased words of the text */
+  words: Set<string>;
+  /** Lowercased link targets (note names without extension) */
+  links: string[];
+}
+
+const searchDataCache: WeakMap<MomentEntry, SearchData> = new WeakMap();
+
+/**
+ * Get the derived text of an entry, computing it on first use
+ */
+function getSearchData(entry: MomentEntry): SearchData {
+  let data = searchDataCache.get(entry);
+  if (!data) {
+    const text = entry.rawWithPrefix.toLowerCase();
+    data = {
+      text,
+      words: new Set(text.match(WORD_REGEX)),
+      links: extractLinkTargets(entry.raw),
+    };
+    searchDataCache.set(entry, data);
+  }
+  return data;
+}
+
+/**
+ * Decode the %-escapes of a Markdown link target
+ *
+ * Targets with a stray "%" (e.g. "50%off") are not valid escapes and
+ * are kept as written.
+ */
+function decodeLinkTarget(target: string): string {
+  try {
+    return decodeURIComponent(target);
+  } catch {
+    return target;
+  }
+}
+
+/**
+ * Get the notes an entry links to, lowercased and without ".md"
+ */
+function extractLinkTargets(content: string): string[] {
+  const targets: string[] = [];
+  for (const match of content.matchAll(WIKILINK_REGEX)) {
+    targets.push(normalizeLinkTarget(match[1] ?? ""));
+  }
+  for (const match of content.matchAll(MARKDOWN_LINK_REGEX)) {
+    const target = match[1] ?? "";
+    if (!/^[a-z]+:/i.test(target)) {
+      targets.push(normalizeLinkTarget(decodeLinkTarget(target)));
+    }
+  }
+  return targets;
+}
+
+/**
+ * Normalize a link target for comparison: "Folder/Note.md" -> "folder/note"
+ */
+function normalizeLinkTarget(target: string): string {
+  return target.trim().replace(/\.md$/i, "").toLowerCase();
+}
+
+/**
+ * Compile a search query
+ *
+ * @param query - The query as typed
+ * @param now - Current time, for relative dates like `today` and recency
+ * @param fuzzy - Match words fuzzily and rank the results
+ */
+export function compileSearchQuery(query: string, now: number = Date.now(), fuzzy = false): CompiledSearchQuery {
+  const inactive: CompiledSearchQuery = {
+    query,
+    active: false,
+    fuzzy,
+    matches: () => true,
+    error: null,
+    rank: null,
+    findMatches: () => [],
+  };
+
+  if (!query.trim()) return inactive;
+
+  try {
+    const parser = new QueryParser(tokenize(query), now, fuzzy);
+    const matches = parser.parse();
+    const terms = parser.getTextTerms();
+    return {
+      query,
+      active: true,
+      fuzzy,
+      matches,
+      error: null,
+      rank: fuzzy ? createRank(terms, now) : null,
+      findMatches: (text) => terms.flatMap(term => term.findMatches(text)),
+    };
+  } catch (error) {
+    if (error instanceof QueryError) {
+      return { ...inactive, active: true, error: error.detail };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create the rank of fuzzy mode: the average relevance of the query's
+ * text terms plus a bonus for recent entries
+ *
+ * A query without text terms (e.g. only `tag:#work`) ranks by recency.
+ */
+function createRank(terms: TextTerm[], now: number): (entry: MomentEntry) => number {
+  return (entry) => {
+    const relevance = terms.length === 0
+      ? 1
+      : terms.reduce((sum, term) => sum + term.score(entry), 0) / terms.length;
+    const ageDays = Math.max(0, now - entry.createdAt) / 86400000;
+    return relevance + RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  };
+}
+
+/**
+ * Error thrown while compiling a query
+ */
+class QueryError extends Error {
+  detail: SearchQueryError;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.detail = { message, start, end };
+  }
+}
+
+/**
+ * Split a query into tokens
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i] ?? "";
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = char === "-" && i + 1 < query.length && !/\s/.test(query[i + 1] ?? "");
+    if (negated) i++;
+
+    const next = query[i];
+    if (next === "(" || next === ")") {
+      if (negated && next === ")") throw new QueryError("Nothing to negate", start, i + 1);
+      tokens.push({ type: next === "(" ? "open" : "close", value: next, negated, start, end: i + 1 });
+      i++;
+    } else if (next === "\"") {
+      const close = query.indexOf("\"", i + 1);
+      if (close < 0) throw new QueryError("Missing closing quote", i, query.length);
+      tokens.push({ type: "phrase", value: query.substring(i + 1, close), negated, start, end: close + 1 });
+      i = close + 1;
+    } else if (next === "/") {
+      tokens.push(readRegex(query, i, start, negated));
+      i = tokens[tokens.length - 1]?.end ?? query.length;
+    } else {
+      const end = readTermEnd(query, i);
+      const value = query.substring(i, end);
+      const isOr = value === "OR" && !negated;
+      tokens.push({ type: isOr ? "or" : "term", value, negated, start, end });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Read a "/regex/flags" token starting at the opening slash
+ */
+function readRegex(query: string, slash: number, start: number, negated: boolean): Token {
+  let i = slash + 1;
+  while (i < query.length && query[i] !== "/") {
+    i += query[i] === "\\" ? 2 : 1;
+  }
+  if (i >= query.length) {
+    throw new QueryError("Missing closing / of the regular expression", slash, query.length);
+  }
+
+  const source = query.substring(slash + 1, i);
+  const flags = /^[a-z]*/.exec(query.substring(i + 1))?.[0] ?? "";
+  const end = i + 1 + flags.length;
+  if (!source) throw new QueryError("Empty regular expression", slash, end);
+
+  try {
+    new RegExp(source, flags);
+  } catch (error) {
+    // The message already reads "Invalid regular expression: ..."
+    const message = error instanceof Error ? error.message : "Invalid regular expression";
+    throw new QueryError(message, slash, end);
+  }
+
+  return { type: "regex", value: source, flags, negated, start, end };
+}
+
+/**
+ * Find the end of a plain term
+ *
+ * A term ends at whitespace or a parenthesis, except inside "[[...]]"
+ * and inside quotes right after a qualifier (e.g. `links:"My note"`).
+ */
+function readTermEnd(query: string, start: number): number {
+  let i = start;
+  while (i < query.length) {
+    const char = query[i] ?? "";
+    if (query.startsWith("[[", i)) {
+      const close = query.indexOf("]]", i + 2);
+      if (close < 0) throw new QueryError("Missing ]] of the link", i, query.length);
+      i = close + 2;
+    } else if (char === "\"" && query[i - 1] === ":") {
+      const close = query.indexOf("\"", i + 1);
+      if (close < 0) throw new QueryError("Missing closing quote", i, query.length);
+      i = close + 1;
+    } else if (/[\s()]/.test(char)) {
+      break;
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+/**
+ * Recursive descent parser turning tokens into a predicate
+ *
+ *   query := and ("OR" and)*
+ *   and   := term+
+ *   term  := "-"? ("(" query ")" | phrase | regex | word)
+ */
+class QueryParser {
+  private tokens: Token[];
+  private now: number;
+  private fuzzy: boolean;
+  private position = 0;
+  /** Number of negations around the current term */
+  private negationDepth = 0;
+  /** Text terms outside negations */
+  private textTerms: TextTerm[] = [];
+
+  constructor(tokens: Token[], now: number, fuzzy: boolean) {
+    this.tokens = tokens;
+    this.now = now;
+    this.fuzzy = fuzzy;
+  }
+
+  /**
+   * Get the words, phrases and regexes found outside negations (after parse)
+   */
+  getTextTerms(): TextTerm[] {
+    return this.textTerms;
+  }
+
+  parse(): Predicate {
+    const predicate = this.parseOr();
+    const extra = this.tokens[this.position];
+    if (extra) {
+      throw new QueryError(extra.type === "close" ? "Unmatched )" : `Unexpected "${extra.value}"`, extra.start, extra.end);
+    }
+    return predicate;
+  }
+
+  private parseOr(): Predicate {
+    const alternatives = [this.parseAnd()];
+
+    while (this.tokens[this.position]?.type === "or") {
+      const or = this.tokens[this.position++];
+      const next = this.tokens[this.position];
+      if (!next || next.type === "or" || next.type === "close") {
+        throw new QueryError("OR needs a term after it", or?.start ?? 0, or?.end ?? 0);
+      }
+      alternatives.push(this.parseAnd());
+    }
+
+    return alternatives.length === 1
+      ? alternatives[0] ?? (() => true)
+      : (entry) => alternatives.some(p => p(entry));
+  }
+
+  private parseAnd(): Predicate {
+    const terms: Predicate[] = [];
+
+    for (;;) {
+      const token = this.tokens[this.position];
+      if (!token || token.type === "or" || token.type === "close") break;
+      terms.push(this.parseTerm());
+    }
+
+    if (terms.length === 0) {
+      const token = this.tokens[this.position] ?? this.tokens[this.position - 1];
+      const message = token?.type === "or" ? "OR needs a term before it" : "Empty group";
+      throw new QueryError(message, token?.start ?? 0, token?.end ?? 0);
+    }
+
+    return terms.length === 1
+      ? terms[0] ?? (() => true)
+      : (entry) => terms.every(p => p(entry));
+  }
+
+  private parseTerm(): Predicate {
+    const token = this.tokens[this.position++];
+    if (!token) throw new QueryError("Missing term", 0, 0);
+
+    let predicate: Predicate;
+    if (token.type === "open") {
+      if (token.negated) this.negationDepth++;
+      predicate = this.parseOr();
+      if (token.negated) this.negationDepth--;
+      if (this.tokens[this.position]?.type !== "close") {
+        throw new QueryError("Missing )", token.start, token.end);
+      }
+      this.position++;
+    } else {
+      const positive = !token.negated && this.negationDepth === 0;
+      const compiled = compileToken(token, this.now, this.fuzzy && positive);
+      predicate = compiled.predicate;
+      if (compiled.term && positive) this.textTerms.push(compiled.term);
+    }
+
+    return token.negated ? (entry) => !predicate(entry) : predicate;
+  }
+}
+
+/**
+ * Compile a phrase, regex or word token
+ *
+ * @param fuzzy - Match a word fuzzily
+ * @returns The predicate, and the text term for words, phrases and regexes
+ */
+function compileToken(token: Token, now: number, fuzzy: boolean): { predicate: Predicate; term?: TextTerm } {
+  if (token.type === "phrase") {
+    const phrase = token.value.toLowerCase();
+    return createTermToken({
+      score: (entry) => getSearchData(entry).text.includes(phrase) ? 1 : 0,
+      findMatches: (text) => findOccurrences(text, phrase),
+    });
+  }
+
+  if (token.type === "regex") {
+    const flags = token.flags?.includes("i") ? token.flags : `${token.flags ?? ""}i`;
+    const regex = new RegExp(token.value, flags.replace(/g|y/g, ""));
+    const globalRegex = new RegExp(regex.source, `${regex.flags}g`);
+    return createTermToken({
+      score: (entry) => regex.test(entry.rawWithPrefix) ? 1 : 0,
+      findMatches: (text) => Array.from(text.matchAll(globalRegex))
+        .filter(match => match[0].length > 0)
+        .map(match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length })),
+    });
+  }
+
+  const field = FIELD_TERM_REGEX.exec(token.value);
+  if (field) {
+    const filter = { [field[1] ?? ""]: unquote(field[2] ?? "") };
+    return { predicate: (entry) => matchesFieldFilter(entry.fields, filter) };
+  }
+
+  const qualifier = QUALIFIER_TERM_REGEX.exec(token.value);
+  const key = qualifier?.[1]?.toLowerCase();
+  if (qualifier && key && QUALIFIERS.includes(key)) {
+    const value = unquote(qualifier[2] ?? "");
+    if (!value) {
+      throw new QueryError(`${key}: needs a value`, token.start, token.end);
+    }
+    return { predicate: compileQualifier(key, value, token, now) };
+  }
+
+  return createTermToken(fuzzy ? createFuzzyTerm(token.value) : createSubstringTerm(token.value));
+}
+
+/**
+ * Compile a text term into a token matching entries it scores
+ */
+function createTermToken(term: TextTerm): { predicate: Predicate; term: TextTerm } {
+  return { predicate: (entry) => term.score(entry) > 0, term };
+}
+
+/**
+ * Create a term matching text containing a word or phrase
+ */
+function createSubstringTerm(value: string): TextTerm {
+  const needle = value.toLowerCase();
+  return {
+    score: (entry) => {
+      const data = getSearchData(entry);
+      if (data.words.has(needle)) return 1;
+      return data.text.includes(needle) ? SUBSTRING_SCORE : 0;
+    },
+    findMatches: (text) => findOccurrences(text, needle),
+  };
+}
+
+/**
+ * Create a term matching words close to a search word
+ *
+ * Text containing the word matches as with createSubstringTerm; other
+ * words match by scoreWord and are highlighted whole. A search word with
+ * punctuation (e.g. `#tag` or `e-mail`) only matches exactly.
+ */
+function createFuzzyTerm(value: string): TextTerm {
+  const exact = createSubstringTerm(value);
+  const term = value.toLowerCase();
+  if (term.match(WORD_REGEX)?.[0] !== term) return exact;
+
+  // Words recur across entries, so score each only once
+  const wordScores: Map<string, number> = new Map();
+  const getWordScore = (word: string): number => {
+    let score = wordScores.get(word);
+    if (score === undefined) {
+      score = scoreWord(term, word);
+      wordScores.set(word, score);
+    }
+    return score;
+  };
+
+  return {
+    score: (entry) => {
+      let best = exact.score(entry);
+      if (best === 1) return best;
+      for (const word of getSearchData(entry).words) {
+        best = Math.max(best, getWordScore(word));
+      }
+      return best;
+    },
+    findMatches: (text) => {
+      const ranges = exact.findMatches(text);
+      for (const match of text.matchAll(WORD_REGEX)) {
+        const word = match[0].toLowerCase();
+        if (!word.includes(term) && getWordScore(word) > 0) {
+          ranges.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+        }
+      }
+      return ranges;
+    },
+  };
+}
+
+/**
+ * Score how well a word of an entry matches a search word
+ *
+ * 1 for the same word, then a word starting with or containing the
+ * search word, one or two typos away (two for words of 8+ letters), and
+ * finally a word with the search word's letters in order, starting with
+ * the same letter.
+ *
+ * @returns Relevance from 0 (no match) to 1
+ */
+function scoreWord(term: string, word: string): number {
+  if (word === term) return 1;
+  if (word.startsWith(term)) return PREFIX_SCORE;
+  if (word.includes(term)) return SUBSTRING_SCORE;
+  if (term.length < FUZZY_MIN_LENGTH) return 0;
+
+  const maxTypos = term.length >= 8 ? 2 : 1;
+  const typos = countTypos(term, word, maxTypos);
+  if (typos <= maxTypos) return TYPO_SCORE - 0.1 * (typos - 1);
+
+  if (word[0] === term[0] && isSubsequence(term, word)) {
+    return 0.2 + 0.3 * term.length / word.length;
+  }
+  return 0;
+}
+
+/**
+ * Count the edits (insertion, deletion, substitution or swap of adjacent
+ * letters) turning one word into another
+ *
+ * @returns The count, or max + 1 if more than max edits are needed
+ */
+function countTypos(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (previous2[j - 2] ?? 0) + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previous2 = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length] ?? 0, max + 1);
+}
+
+/**
+ * Check if the letters of a word appear in order in another word
+ */
+function isSubsequence(term: string, word: string): boolean {
+  let i = 0;
+  for (const char of word) {
+    if (char === term[i]) i++;
+    if (i === term.length) return true;
+  }
+  return false;
+}
+
+/**
+ * Find the occurrences of a lowercased needle in a text (case-insensitive)
+ */
+function findOccurrences(text: string, needle: string): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  if (!needle) return ranges;
+
+  const haystack = text.toLowerCase();
+  let index = haystack.indexOf(needle);
+  while (index >= 0) {
+    ranges.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return ranges;
+}
+
+/**
+ * Compile a "key:value" qualifier
+ */
+function compileQualifier(key: string, value: string, token: Token, now: number): Predicate {
+  switch (key) {
+    case "tag": {
+      const tag = value.replace(/^#?/, "#").toLowerCase();
+      return (entry) => getEntryTags(entry).some(t => isTagOrNested(t, tag));
+    }
+
+    case "before":
+    case "after":
+    case "on": {
+      const period = parseDatePeriod(value, now);
+      if (!period) {
+        throw new QueryError(
+          `Unknown date "${value}" (use YYYY-MM-DD, YYYY-MM, YYYY, today, yesterday or e.g. -7d)`,
+          token.start,
+          token.end
+        );
+      }
+      if (key === "before") return (entry) => entry.createdAt < period.start;
+      if (key === "after") return (entry) => entry.createdAt >= period.end;
+      return (entry) => entry.createdAt >= period.start && entry.createdAt < period.end;
+    }
+
+    case "last": {
+      const period = parseRelativePeriod(value);
+      if (!period) {
+        throw new QueryError(`Unknown period "${value}" (use e.g. 7d, 2w, 3m or 1y)`, token.start, token.end);
+      }
+      const since = moment(now).subtract(period.count, period.unit).valueOf();
+      return (entry) => entry.createdAt >= since;
+    }
+
+    case "has": {
+      const kind = value.toLowerCase();
+      if (kind === "link") return (entry) => LINK_REGEX.test(entry.raw);
+      if (kind === "image") return (entry) => IMAGE_REGEX.test(entry.raw);
+      if (kind === "task") return (entry) => TASK_REGEX.test(entry.raw);
+      if (kind === "tag") return (entry) => getEntryTags(entry).length > 0;
+      throw new QueryError(
+        `Unknown has: value "${value}" (use ${HAS_VALUES.join(", ")})`,
+        token.start,
+        token.end
+      );
+    }
+
+    default: {
+      const target = normalizeLinkTarget(value.replace(/^\[\[|\]\]$/g, "").split(/[|#^]/)[0] ?? "");
+      // A link matches by path or by note name
+      return (entry) => getSearchData(entry).links.some(link =>
+        link === target || link.endsWith(`/${target}`) || target.endsWith(`/${link}`)
+      );
+    }
+  }
+}
+
+/**
+ * Get the time range of a date value
+ *
+ * @returns Start (inclusive) and end (exclusive) in epoch milliseconds, or null if not a date
+ */
+function parseDatePeriod(value: string, now: number): { start: number; end: number } | null {
+  const lower = value.toLowerCase();
+  let date: moment.Moment | null = null;
+  let unit: "day" | "month" | "year" = "day";
+
+  if (lower === "today") {
+    date = moment(now);
+  } else if (lower === "yesterday") {
+    date = moment(now).subtract(1, "day");
+  } else if (lower.startsWith("-")) {
+    const period = parseRelativePeriod(lower.substring(1));
+    if (period) date = moment(now).subtract(period.count, period.unit);
+  } else {
+    for (const candidate of DATE_FORMATS) {
+      const parsed = moment(value, candidate.format, true);
+      if (parsed.isValid()) {
+        date = parsed;
+        unit = candidate.unit;
+        break;
+      }
+    }
+  }
+
+  if (!date) return null;
+  const start = date.clone().startOf(unit);
+  return { start: start.valueOf(), end: start.clone().add(1, unit).valueOf() };
+}
+
+/**
+ * Parse a relative period like "7d" (days, weeks, months or years)
+ */
+function parseRelativePeriod(value: string): { count: number; unit: "day" | "week" | "month" | "year" } | null {
+  const match = PERIOD_REGEX.exec(value);
+  const unit = match?.[2] && PERIOD_UNITS[match[2].toLowerCase()];
+  return match && unit ? { count: Number(match[1]), unit } : null;
+}
+
+/**
+ * Remove quotes around a qualifier value
+ */
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith("\"") && value.endsWith("\"")
+    ? value.slice(1, -1)
+    : value;
+}
@@ -0,0 +1,100 @@
+/**
+ * Tag Utilities
+ *
+ * Tag counts and tag filtering for the tag bar. Nested tags
+ * (`#proj/a`) form a tree under their parents (`#proj`); a parent counts
+ * and matches the entries with any tag below it too.
+ */
+
+import type { MomentEntry, TagFilter } from "../types";
+import { extractTags } from "./markdown";
+
+/**
+ * Tag in the tag tree
+ */
+export interface TagNode {
+  /** Full tag, lowercased with "#" (e.g. "#proj/a") */
+  tag: string;
+  /** Last part of the tag as written (e.g. "a") */
+  name: string;
+  /** Number of entries with the tag or a tag below it */
+  count: number;
+  /** Tags one level below, by name */
+  children: TagNode[];
+}
+
+const entryTagsCache: WeakMap<MomentEntry, string[]> = new WeakMap();
+
+/**
+ * Get the lowercased tags of an entry, computing them on first use
+ */
+export function getEntryTags(entry: MomentEntry): string[] {
+  let tags = entryTagsCache.get(entry);
+  if (!tags) {
+    tags = extractTags(entry.raw).tags.map(tag => tag.toLowerCase());
+    entryTagsCache.set(entry, tags);
+  }
+  return tags;
+}
+
+/**
+ * Check if a tag is the given tag or nested below it
+ *
+ * @param tag - Lowercased tag with "#"
+ * @param parent - Lowercased tag with "#"
+ */
+export function isTagOrNested(tag: string, parent: string): boolean {
+  return tag === parent || tag.startsWith(`${parent}/`);
+}
+
+/**
+ * Check if an entry matches a tag filter (an empty filter matches everything)
+ */
+export function matchesTagFilter(entry: MomentEntry, filter: TagFilter): boolean {
+  if (filter.tags.length === 0) return true;
+
+  const tags = getEntryTags(entry);
+  const hasTag = (selected: string) => tags.some(tag => isTagOrNested(tag, selected));
+  return filter.mode === "and" ? filter.tags.every(hasTag) : filter.tags.some(hasTag);
+}
+
+/**
+ * Build the tree of the tags used in entries, sorted by name
+ *
+ * Tags differing only in case are one node, named as first written.
+ */
+export function buildTagTree(entries: MomentEntry[]): TagNode[] {
+  const roots: TagNode[] = [];
+  const nodes: Map<string, TagNode> = new Map();
+
+  for (const entry of entries) {
+    // Each tag and its parents, counted once per entry
+    const counted: Set<string> = new Set();
+    for (const written of extractTags(entry.raw).tags) {
+      const parts = written.slice(1).split("/").filter(part => part.length > 0);
+      let path = "#";
+      let siblings = roots;
+      for (const part of parts) {
+        path = path === "#" ? `#${part.toLowerCase()}` : `${path}/${part.toLowerCase()}`;
+        let node = nodes.get(path);
+        if (!node) {
+          node = { tag: path, name: part, count: 0, children: [] };
+          nodes.set(path, node);
+          siblings.push(node);
+        }
+        if (!counted.has(path)) {
+          counted.add(path);
+          node.count++;
+        }
+        siblings = node.children;
+      }
+    }
+  }
+
+  const sortNodes = (list: TagNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: "base" }));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+  return roots;
+}
@@ -6,6 +6,16 @@
 
 import { moment } from "obsidian";
 
+/**
+ * Timestamp formats always tried when an entry does not match the
+ * configured format (e.g. entries written before the format changed)
+ */
+export const KNOWN_TIMESTAMP_FORMATS = [
+  "YYYY-MM-DD HH:mm:ss",
+  "YYYY-MM-DD HH:mm",
+  "YYYY-MM-DD",
+];
+
 /**
  * Format a timestamp for display/storage
  * 
@@ -35,12 +45,13 @@ export function parseTimestamp(str: string, format: string): number | null {
  * 
  * @param text - Entry text that may start with a timestamp
  * @param format - Expected format string
- * @returns Object with timestamp (if found) and remaining text
+ * @returns Object with timestamp (if found), remaining text and
+ *          the length of the timestamp prefix in `text` (0 if none)
  */
 export function extractTimestampPrefix(
   text: string,
   format: string
-): { timestamp: number | null; remainingText: string } {
+): { timestamp: number | null; remainingText: string; prefixLength: number } {
   // Try to match common timestamp patterns at the start
   // Pattern: timestamp followed by space or end
   const formatLength = format.replace(/\[.*?\]/g, "").length;
@@ -55,11 +66,105 @@ export function extractTimestampPrefix(
       return {
         timestamp: parsed.valueOf(),
         remainingText: remaining,
+        prefixLength: text.substring(0, len).trimEnd().length,
       };
     }
   }
   
-  return { timestamp: null, remainingText: text };
+  return { timestamp: null, remainingText: text, prefixLength: 0 };
+}
+
+/**
+ * Extract a timestamp prefix, falling back to other known formats
+ * 
+ * The configured format wins whenever it matches. Otherwise the fallback
+ * that matches the longest prefix is used, so "YYYY-MM-DD HH:mm" beats
+ * "YYYY-MM-DD" on "2026-01-02 10:21 ...".
+ * 
+ * @param text - Entry text that may start with a timestamp
+ * @param format - Configured format string
+ * @param fallbackFormats - Formats used previously (most recent first)
+ * @returns Extraction result plus the format that matched (null if none)
+ */
+export function extractTimestampPrefixWithFallbacks(
+  text: string,
+  format: string,
+  fallbackFormats: string[]
+): ReturnType<typeof extractTimestampPrefix> & { format: string | null } {
+  const primary = extractTimestampPrefix(text, format);
+  if (primary.timestamp !== null) {
+    return { ...primary, format };
+  }
+  
+  let best: ReturnType<typeof extractTimestampPrefix> & { format: string | null } = {
+    ...primary,
+    format: null,
+  };
+  
+  for (const fallback of getTimestampFallbacks(format, fallbackFormats)) {
+    const result = extractTimestampPrefix(text, fallback);
+    if (result.timestamp !== null && result.prefixLength > best.prefixLength) {
+      best = { ...result, format: fallback };
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * Get the distinct fallback formats to try besides the configured one
+ */
+export function getTimestampFallbacks(format: string, history: string[]): string[] {
+  const formats = [...history, ...KNOWN_TIMESTAMP_FORMATS].filter(f => f && f !== format);
+  return [...new Set(formats)];
+}
+
+/**
+ * Capture time tag, e.g. "@yesterday 21:30", "@2026-01-02 10:00", "@today" or "@21:30"
+ * (groups: day, time after a day, time alone)
+ */
+const CAPTURE_TIME_TAG = "@(?:(today|yesterday|\\d{4}-\\d{2}-\\d{2})(?:[ T](\\d{1,2}:\\d{2}))?|(\\d{1,2}:\\d{2}))";
+const CAPTURE_TIME_START_REGEX = new RegExp(`^${CAPTURE_TIME_TAG}(?=\\s|$)`);
+const CAPTURE_TIME_END_REGEX = new RegExp(`\\s${CAPTURE_TIME_TAG}$`);
+
+/**
+ * Read a capture time tag from the start or end of a capture
+ * 
+ * A day without a time keeps the time of day of `reference`, a time
+ * without a day is on the day of `reference`.
+ * 
+ * @param content - Captured text
+ * @param reference - Current time in epoch milliseconds
+ * @returns The time the tag sets (null if there is none or it is invalid)
+ *          and the text without the tag
+ */
+export function extractCaptureTime(
+  content: string,
+  reference: number = now()
+): { createdAt: number | null; content: string } {
+  const text = content.trim();
+  const match = CAPTURE_TIME_START_REGEX.exec(text) ?? CAPTURE_TIME_END_REGEX.exec(text);
+  if (!match) return { createdAt: null, content };
+  
+  const day = match[1];
+  const time = match[2] ?? match[3];
+  
+  const date = moment(reference);
+  if (day === "yesterday") {
+    date.subtract(1, "day");
+  } else if (day && day !== "today") {
+    const parsed = moment(day, "YYYY-MM-DD", true);
+    if (!parsed.isValid()) return { createdAt: null, content };
+    date.set({ year: parsed.year(), month: parsed.month(), date: parsed.date() });
+  }
+  if (time) {
+    const parsed = moment(time, "H:mm", true);
+    if (!parsed.isValid()) return { createdAt: null, content };
+    date.set({ hour: parsed.hour(), minute: parsed.minute(), second: 0, millisecond: 0 });
+  }
+  
+  const rest = text.substring(0, match.index) + text.substring(match.index + match[0].length);
+  return { createdAt: date.valueOf(), content: rest.trim() };
 }
 
 /**
@@ -5,23 +5,117 @@
  * Extends TextFileView to bind to a specific markdown file.
  */
 
-import { Menu, TextFileView, WorkspaceLeaf, TFile } from "obsidian";
+import { Menu, Notice, Scope, TextFileView, WorkspaceLeaf, TFile, type ViewStateResult } from "obsidian";
 import { render } from "preact";
 import type MomentsPlugin from "../main";
 import { MomentsStateManager } from "../state/MomentsStateManager";
 import { MomentsApp } from "../ui/MomentsApp";
-import { MOMENTS_VIEW_TYPE, MOMENTS_ICON, MOMENTS_DISPLAY_NAME } from "./MomentsViewTypes";
+import {
+  MOMENTS_VIEW_TYPE,
+  MOMENTS_ICON,
+  MOMENTS_DISPLAY_NAME,
+  DEFAULT_VIEW_STATE,
+  type MomentsTab,
+  type MomentsViewState,
+} from "./MomentsViewTypes";
+import type { ScrollAnchor } from "../ui/components/VirtualList";
 import type { MomentsContextValue } from "../ui/context";
 import { bindMarkdownEvents } from "../helpers/renderMarkdown";
+import { getSettingOverrides } from "../storage/momentsFormat";
+import { MomentsDoctorModal } from "../ui/modals/MomentsDoctorModal";
+import { RestoreBackupModal } from "../ui/modals/RestoreBackupModal";
+
+/** Key of the Moments state in the leaf's view state */
+const VIEW_STATE_KEY = "moments";
+
+/**
+ * Check if a value is a list of strings
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string");
+}
+
+/**
+ * Read a scroll position saved in the layout
+ */
+function parseScrollAnchor(value: unknown): ScrollAnchor | null {
+  if (!value || typeof value !== "object") return null;
+  const { key, offset } = value as Record<string, unknown>;
+  if (typeof key !== "string" || typeof offset !== "number" || !isFinite(offset)) return null;
+  return { key, offset };
+}
+
+/**
+ * Read the Moments state saved in the layout
+ *
+ * The layout file can be edited or come from another version of the
+ * plugin, so anything unexpected falls back to the default.
+ */
+function parseViewState(value: unknown): MomentsViewState {
+  const state: MomentsViewState = { ...DEFAULT_VIEW_STATE, scroll: {} };
+  if (!value || typeof value !== "object") return state;
+  const saved = value as Record<string, unknown>;
+  
+  if (typeof saved.query === "string") {
+    state.query = saved.query;
+  }
+  
+  if (saved.tagFilter && typeof saved.tagFilter === "object") {
+    const { tags, mode } = saved.tagFilter as Record<string, unknown>;
+    state.tagFilter = {
+      tags: isStringArray(tags) ? tags : [],
+      mode: mode === "or" ? "or" : "and",
+    };
+  }
+  
+  if (saved.tab === "stream" || saved.tab === "archive") {
+    state.tab = saved.tab;
+  }
+  
+  if (saved.scroll && typeof saved.scroll === "object") {
+    const scroll = saved.scroll as Record<string, unknown>;
+    for (const tab of ["stream", "archive"] as MomentsTab[]) {
+      const anchor = parseScrollAnchor(scroll[tab]);
+      if (anchor) state.scroll[tab] = anchor;
+    }
+  }
+  
+  if (isStringArray(saved.collapsedMonths)) {
+    state.collapsedMonths = saved.collapsedMonths;
+  }
+  
+  if (isStringArray(saved.expandedTags)) {
+    state.expandedTags = saved.expandedTags;
+  }
+  
+  return state;
+}
 
 export class MomentsView extends TextFileView {
   plugin: MomentsPlugin;
   stateManager: MomentsStateManager | null = null;
   private rootEl: HTMLElement | null = null;
   
+  /** Serialized frontmatter setting overrides the view was last rendered with */
+  private settingOverrides = "";
+  
+  /** Interval timer of the automatic archiving run */
+  private autoArchiveTimer: number | null = null;
+  
+  /** Filters, tab, scroll positions and expanded groups saved with the layout */
+  private viewState: MomentsViewState = { ...DEFAULT_VIEW_STATE, scroll: {} };
+  
+  /** Bumped when a view state is applied, so the UI starts over from it */
+  private viewStateVersion = 0;
+  
   constructor(leaf: WorkspaceLeaf, plugin: MomentsPlugin) {
     super(leaf);
     this.plugin = plugin;
+    
+    // Undo/redo Moments operations while focus is outside an editor
+    this.scope = new Scope(this.app.scope);
+    this.scope.register(["Mod"], "z", () => this.handleHistoryKey("undo"));
+    this.scope.register(["Mod", "Shift"], "z", () => this.handleHistoryKey("redo"));
   }
   
   getViewType(): string {
@@ -45,6 +139,8 @@ export class MomentsView extends TextFileView {
   }
   
   async onClose(): Promise<void> {
+    this.clearAutoArchive();
+    
     // Cleanup Preact
     if (this.rootEl) {
       render(null, this.rootEl);
@@ -72,9 +168,21 @@ export class MomentsView extends TextFileView {
     
     await this.stateManager.initialize();
     
+    // Filters saved with the layout, saving it again when they change
+    this.stateManager.setFilters(this.viewState.query, this.viewState.tagFilter);
+    this.stateManager.subscribe(() => this.app.workspace.requestSaveLayout());
+    
+    this.settingOverrides = JSON.stringify(
+      getSettingOverrides(this.app.metadataCache.getFileCache(file)?.frontmatter)
+    );
+    
     // Render Preact app
     this.renderApp();
     
+    // Apply the automatic archiving rules now and periodically
+    void this.runAutoArchive();
+    this.scheduleAutoArchive();
+    
     // Auto-focus input if enabled
     if (this.plugin.settings.autoFocusInput) {
       // Defer to next frame to ensure DOM is ready
@@ -88,6 +196,8 @@ export class MomentsView extends TextFileView {
    * Called when the file is unloaded (switching to different file)
    */
   async onUnloadFile(file: TFile): Promise<void> {
+    this.clearAutoArchive();
+    
     // Cleanup state manager
     if (this.stateManager) {
       this.stateManager.destroy();
@@ -100,6 +210,61 @@ export class MomentsView extends TextFileView {
     }
   }
   
+  /**
+   * Get the view state saved with the layout
+   */
+  getState(): Record<string, unknown> {
+    return {
+      ...super.getState(),
+      [VIEW_STATE_KEY]: this.getViewState(),
+    };
+  }
+  
+  /**
+   * Restore the view state from the layout (or from the leaf being split)
+   */
+  async setState(state: unknown, result: ViewStateResult): Promise<void> {
+    const saved = state && typeof state === "object" ? (state as Record<string, unknown>) : {};
+    const file = saved.file;
+    
+    // Another file opened without a state starts unfiltered
+    const replace = saved[VIEW_STATE_KEY] !== undefined ||
+      (typeof file === "string" && file !== this.file?.path);
+    if (replace) {
+      this.viewState = parseViewState(saved[VIEW_STATE_KEY]);
+      this.viewStateVersion++;
+    }
+    
+    const loadedFile = this.file;
+    await super.setState(state, result);
+    
+    // The same file stays loaded, so apply the state to it here
+    if (replace && this.stateManager && this.file === loadedFile) {
+      this.stateManager.setFilters(this.viewState.query, this.viewState.tagFilter);
+      this.renderApp();
+    }
+  }
+  
+  /**
+   * Current view state, with the filters of the state manager
+   */
+  private getViewState(): MomentsViewState {
+    if (!this.stateManager) return this.viewState;
+    return {
+      ...this.viewState,
+      query: this.stateManager.getSearchQuery(),
+      tagFilter: { ...this.stateManager.getTagFilter() },
+    };
+  }
+  
+  /**
+   * Update the view state and save it with the layout
+   */
+  private updateViewState(patch: Partial<MomentsViewState>): void {
+    this.viewState = { ...this.viewState, ...patch };
+    this.app.workspace.requestSaveLayout();
+  }
+  
   /**
    * Get the current view data (file content)
    * Required by TextFileView
@@ -151,6 +316,32 @@ export class MomentsView extends TextFileView {
         });
     });
 
+    // Add "Check file" option
+    menu.addItem((item) => {
+      item
+        .setTitle("Check file")
+        .setIcon("lucide-stethoscope")
+        .setSection("pane")
+        .onClick(() => {
+          if (this.stateManager) {
+            new MomentsDoctorModal(this.plugin, this.stateManager).open();
+          }
+        });
+    });
+
+    // Add "Restore from backup" option
+    menu.addItem((item) => {
+      item
+        .setTitle("Restore from backup")
+        .setIcon("lucide-history")
+        .setSection("pane")
+        .onClick(() => {
+          if (this.stateManager) {
+            new RestoreBackupModal(this.app, this.stateManager).open();
+          }
+        });
+    });
+
     // Call parent to add default menu items
     super.onPaneMenu(menu, source);
   }
@@ -163,25 +354,130 @@ export class MomentsView extends TextFileView {
     
     const context: MomentsContextValue = {
       stateManager: this.stateManager,
-      settings: this.plugin.settings,
+      settings: this.stateManager.getSettings(),
       app: this.app,
       sourcePath: this.file.path,
       plugin: this.plugin,
+      getViewState: () => this.getViewState(),
+      updateViewState: (patch) => this.updateViewState(patch),
     };
     
-    render(<MomentsApp context={context} />, this.rootEl);
+    render(<MomentsApp key={this.viewStateVersion} context={context} />, this.rootEl);
   }
   
   /**
-   * Re-render when settings change
+   * Re-render when settings (or the file's frontmatter overrides) change
    */
   onSettingsChange(): void {
     if (this.stateManager) {
       this.stateManager.updateSettings(this.plugin.settings);
+      this.scheduleAutoArchive();
     }
     this.renderApp();
   }
   
+  /**
+   * Re-render when the file's frontmatter setting overrides change
+   */
+  onFileMetadataChange(): void {
+    if (!this.file) return;
+    
+    const frontmatter = this.app.metadataCache.getFileCache(this.file)?.frontmatter;
+    const overrides = JSON.stringify(getSettingOverrides(frontmatter));
+    
+    if (overrides !== this.settingOverrides) {
+      this.settingOverrides = overrides;
+      this.onSettingsChange();
+    }
+  }
+  
+  /**
+   * Archive the moments selected by the automatic archiving settings
+   * 
+   * A notice tells what was moved; clicking it undoes the whole batch.
+   */
+  private async runAutoArchive(): Promise<void> {
+    const stateManager = this.stateManager;
+    if (!stateManager) return;
+    
+    const moved = await stateManager.runAutoArchive();
+    if (moved.length === 0) return;
+    
+    const count = moved.length;
+    const notice = new Notice(
+      `Moments: archived ${count} ${count === 1 ? "moment" : "moments"}. Click to undo.`,
+      this.plugin.settings.undoToastDuration
+    );
+    
+    const noticeEl = (notice as unknown as { noticeEl: HTMLElement }).noticeEl;
+    noticeEl.setCssProps({ cursor: "pointer" });
+    noticeEl.addEventListener("click", () => {
+      notice.hide();
+      void stateManager.undoAutoArchive(moved).then((undone) => {
+        if (undone) {
+          new Notice("Moments restored from the archive.", 2000);
+        }
+      });
+    });
+  }
+  
+  /**
+   * (Re)start the periodic automatic archiving run from the settings
+   */
+  private scheduleAutoArchive(): void {
+    this.clearAutoArchive();
+    
+    const minutes = this.plugin.settings.autoArchiveIntervalMinutes;
+    if (!this.stateManager || minutes <= 0) return;
+    
+    this.autoArchiveTimer = window.setInterval(() => void this.runAutoArchive(), minutes * 60 * 1000);
+  }
+  
+  /**
+   * Stop the periodic automatic archiving run
+   */
+  private clearAutoArchive(): void {
+    if (this.autoArchiveTimer !== null) {
+      window.clearInterval(this.autoArchiveTimer);
+      this.autoArchiveTimer = null;
+    }
+  }
+  
+  /**
+   * Undo the most recent Moments operation
+   */
+  async undo(): Promise<void> {
+    const undone = await this.stateManager?.undo();
+    new Notice(undone ? `Undid ${undone}.` : "Nothing to undo.", 2000);
+  }
+  
+  /**
+   * Redo the most recently undone Moments operation
+   */
+  async redo(): Promise<void> {
+    const redone = await this.stateManager?.redo();
+    new Notice(redone ? `Redid ${redone}.` : "Nothing to redo.", 2000);
+  }
+  
+  /**
+   * Handle Mod+Z / Mod+Shift+Z, leaving text editing to the focused editor
+   * 
+   * @returns False to stop the key event once handled
+   */
+  private handleHistoryKey(direction: "undo" | "redo"): boolean {
+    const active = document.activeElement;
+    if (
+      active instanceof HTMLElement &&
+      this.contentEl.contains(active) &&
+      active.closest(".cm-editor, input, textarea, [contenteditable='true']")
+    ) {
+      return true;
+    }
+    
+    void (direction === "undo" ? this.undo() : this.redo());
+    return false;
+  }
+  
   /**
    * Focus the capture input
    */
@@ -2,6 +2,9 @@
  * Moments View Types and Constants
  */
 
+import type { TagFilter } from "../types";
+import type { ScrollAnchor } from "../ui/components/VirtualList";
+
 /** Unique identifier for the Moments view type */
 export const MOMENTS_VIEW_TYPE = "moments-view";
 
@@ -11,3 +14,42 @@ export const MOMENTS_ICON = "sparkles";
 /** Display name for the view */
 export const MOMENTS_DISPLAY_NAME = "Moments";
 
+
+/** Tabs of the view */
+export type MomentsTab = "stream" | "archive";
+
+/**
+ * State of a Moments view kept in the workspace layout
+ *
+ * Each leaf has its own, so panes showing the same file can be filtered
+ * and scrolled independently.
+ */
+export interface MomentsViewState {
+  /** Search query */
+  query: string;
+  
+  /** Tag selection */
+  tagFilter: TagFilter;
+  
+  /** Tab shown */
+  tab: MomentsTab;
+  
+  /** Scroll position of each tab */
+  scroll: Partial<Record<MomentsTab, ScrollAnchor>>;
+  
+  /** Archive months whose moments are hidden ("YYYY-MM") */
+  collapsedMonths: string[];
+  
+  /** Tags of the tag bar whose nested tags are shown */
+  expandedTags: string[];
+}
+
+/** State of a view opened without one */
+export const DEFAULT_VIEW_STATE: MomentsViewState = {
+  query: "",
+  tagFilter: { tags: [], mode: "and" },
+  tab: "stream",
+  scroll: {},
+  collapsedMonths: [],
+  expandedTags: [],
+};